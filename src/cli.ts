@@ -0,0 +1,204 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import { ConfigValidationError } from './configValidator.js';
+import { TemplateError } from './templateEngine.js';
+import { OpmlError } from './opml.js';
+import { CliContext, CliError } from './commands/context.js';
+import { generate } from './commands/generate.js';
+import { fetchFeed } from './commands/fetch.js';
+import { addFeed, listFeeds, resetFeed } from './commands/feeds.js';
+import { health, scores, stats } from './commands/stats.js';
+import { forget, prune } from './commands/maintenance.js';
+import { validate } from './commands/validate.js';
+import { preview } from './commands/preview.js';
+import { sendEmail } from './commands/email.js';
+import { search } from './commands/search.js';
+import { rebuild } from './commands/rebuild.js';
+import { rollup } from './commands/rollup.js';
+import { exportOpml, importOpml } from './commands/opml.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, '..');
+
+interface Command {
+  usage: string;
+  description: string;
+  run: (context: CliContext, args: string[]) => Promise<void>;
+}
+
+const COMMANDS: Record<string, Command> = {
+  'generate': {
+    usage: 'generate [--send]',
+    description: 'Fetch all feeds and write the newsletter (default); --send emails it to subscribers',
+    run: context => generate(context)
+  },
+  'preview': {
+    usage: 'preview [--preview-dir <dir>] [--summary]',
+    description: 'Dry run: show what would be published and render it to preview/, saving nothing',
+    run: context => preview(context)
+  },
+  'send-email': {
+    usage: 'send-email [file.eml]',
+    description: 'Send a saved email edition (default: the latest in email/) to subscribers',
+    run: (context, args) => sendEmail(context, args[0])
+  },
+  'rebuild': {
+    usage: 'rebuild',
+    description: 'Render every stored edition, the archive and the search page again, e.g. after a theme change',
+    run: context => rebuild(context)
+  },
+  'rollup': {
+    usage: 'rollup <weekly|monthly> [period] [--send]',
+    description: 'Build the roll-up of a week (2026-W42) or month (2026-10), by default the last one that ended',
+    run: (context, args) => rollup(context, args)
+  },
+  'search': {
+    usage: 'search <words> [--feed <name>] [--limit <n>]',
+    description: 'Search the titles, descriptions, authors and categories of every published item',
+    run: (context, args) => search(context, args)
+  },
+  'fetch': {
+    usage: 'fetch --feed <name>',
+    description: 'Fetch one feed and show which items are new, without writing anything',
+    run: context => fetchFeed(context)
+  },
+  'add-feed': {
+    usage: 'add-feed <site-url> [--pick <n>] [--name <name>] [--category <name>]',
+    description: "Find a website's feeds, check them and add one (the first, or the n-th) to the configuration",
+    run: (context, args) => addFeed(context, args[0])
+  },
+  'list-feeds': {
+    usage: 'list-feeds',
+    description: 'List configured feeds with their category and health',
+    run: context => listFeeds(context)
+  },
+  'import-opml': {
+    usage: 'import-opml <file>',
+    description: 'Add the feeds of an OPML file to the configuration; folders become categories',
+    run: (context, args) => importOpml(context, args[0])
+  },
+  'export-opml': {
+    usage: 'export-opml [file]',
+    description: 'Write the configured feeds as OPML to a file or stdout',
+    run: (context, args) => exportOpml(context, args[0])
+  },
+  'stats': {
+    usage: 'stats',
+    description: 'Show recent generations and per-feed fetch statistics',
+    run: context => stats(context)
+  },
+  'health': {
+    usage: 'health',
+    description: 'Show which feeds are healthy, degraded or quarantined',
+    run: context => health(context)
+  },
+  'scores': {
+    usage: 'scores [--feed <name>] [--days <n>]',
+    description: 'Show how the last run (or the last n days) scored and ranked items',
+    run: context => scores(context)
+  },
+  'validate': {
+    usage: 'validate [file]',
+    description: 'Check a configuration file and report every problem',
+    run: (context, args) => validate(context, args[0])
+  },
+  'forget': {
+    usage: 'forget <url>',
+    description: 'Remove a URL from the processed list so it can appear again',
+    run: (context, args) => forget(context, args[0])
+  },
+  'reset-feed': {
+    usage: 'reset-feed <name>',
+    description: "Forget a feed's processed URLs, fetch history and cache",
+    run: (context, args) => resetFeed(context, args[0])
+  },
+  'prune': {
+    usage: 'prune [--days <n>]',
+    description: 'Delete old processed URLs and fetch history, then compact the database',
+    run: context => prune(context)
+  }
+};
+
+function printUsage(): void {
+  const width = Math.max(...Object.values(COMMANDS).map(c => c.usage.length));
+  console.log(`Usage: rss-newsletter [command] [options]
+
+Commands:
+${Object.values(COMMANDS).map(c => `  ${c.usage.padEnd(width)}  ${c.description}`).join('\n')}
+
+Options:
+  -c, --config <path>    Configuration file (default: feeds.config.json)
+      --db <path>        SQLite database (default: data/processed.db)
+  -o, --output <dir>     Output directory (default: output/)
+  -n, --newsletter <id>  Only work on this one of the configured newsletters
+  -h, --help             Show this help`);
+}
+
+export async function runCli(argv: string[]): Promise<void> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        db: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        newsletter: { type: 'string', short: 'n' },
+        feed: { type: 'string' },
+        days: { type: 'string' },
+        limit: { type: 'string' },
+        'preview-dir': { type: 'string' },
+        summary: { type: 'boolean' },
+        send: { type: 'boolean' },
+        pick: { type: 'string' },
+        name: { type: 'string' },
+        category: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+
+    if (values.help) {
+      printUsage();
+      return;
+    }
+
+    const [name = 'generate', ...args] = positionals;
+    const command = COMMANDS[name];
+    if (!command) {
+      printUsage();
+      throw new CliError(`Unknown command "${name}"`);
+    }
+
+    // Flags are resolved against the working directory, defaults against the project root
+    const context: CliContext = {
+      configPath: values.config ? path.resolve(values.config) : path.join(rootDir, 'feeds.config.json'),
+      dbPath: values.db ? path.resolve(values.db) : path.join(rootDir, 'data', 'processed.db'),
+      outputDir: values.output ? path.resolve(values.output) : path.join(rootDir, 'output'),
+      options: {
+        newsletter: values.newsletter,
+        feed: values.feed,
+        days: values.days,
+        limit: values.limit,
+        previewDir: values['preview-dir'],
+        summary: values.summary,
+        send: values.send,
+        pick: values.pick,
+        name: values.name,
+        category: values.category
+      }
+    };
+
+    await command.run(context, args);
+  } catch (error) {
+    if (error instanceof CliError || error instanceof ConfigValidationError || error instanceof TemplateError || error instanceof OpmlError) {
+      console.error(`\nError: ${error.message}`);
+    } else if (error instanceof Error && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`\nError: ${error.message}\nRun with --help to see the available options.`);
+    } else {
+      console.error('\nFatal error:', error);
+    }
+    process.exit(1);
+  }
+}
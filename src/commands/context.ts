@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Config, FeedConfig } from '../types.js';
+import { DatabaseManager } from '../database.js';
+import { Newsletter, resolveNewsletters } from '../newsletters.js';
+import {
+  ConfigIssue,
+  ConfigValidationError,
+  ConfigValidationResult,
+  ConfigValidator,
+  formatIssues
+} from '../configValidator.js';
+
+export interface CliContext {
+  configPath: string;
+  dbPath: string;
+  outputDir: string;
+  options: CliOptions;
+}
+
+export interface CliOptions {
+  newsletter?: string;
+  feed?: string;
+  days?: string;
+  limit?: string;
+  previewDir?: string;
+  summary?: boolean;
+  send?: boolean;
+  pick?: string;
+  name?: string;
+  category?: string;
+}
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function invalidJsonIssue(error: unknown): ConfigIssue {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return { severity: 'error', path: '$', message: `Invalid JSON: ${message}`, suggestion: 'Check for trailing commas and unquoted keys' };
+}
+
+export function readConfig(configPath: string): ConfigValidationResult {
+  if (!fs.existsSync(configPath)) {
+    throw new CliError(`Configuration file not found: ${configPath}`);
+  }
+
+  const configContent = fs.readFileSync(configPath, 'utf-8');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(configContent);
+  } catch (error) {
+    return { config: null, issues: [invalidJsonIssue(error)] };
+  }
+
+  return new ConfigValidator().validate(raw);
+}
+
+export function loadConfig(context: CliContext): Config {
+  const { config, issues } = readConfig(context.configPath);
+
+  if (!config) {
+    throw new ConfigValidationError(context.configPath, issues);
+  }
+
+  if (issues.length > 0) {
+    console.warn(`Configuration warnings:\n${formatIssues(issues)}`);
+  }
+
+  // Paths in the config are relative to the config file, not the working directory
+  for (const feed of config.feeds) {
+    if (/^file:(?!\/\/)/i.test(feed.url)) {
+      feed.url = pathToFileURL(path.resolve(path.dirname(context.configPath), feed.url.slice('file:'.length))).href;
+    }
+  }
+  for (const newsletter of [config.newsletter, ...(config.newsletters || []).map(n => n.newsletter)]) {
+    if (newsletter.theme) {
+      newsletter.theme = path.resolve(path.dirname(context.configPath), newsletter.theme);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Appends `feeds` to the configuration file as written, without the
+ * defaults validation fills in, and saves it if the result is still valid.
+ * Their categories are added to an explicit "categories" list; without
+ * one, categories follow the feeds anyway. Returns the categories added.
+ */
+export function addFeedsToConfigFile(configPath: string, feeds: FeedConfig[]): string[] {
+  if (!fs.existsSync(configPath)) {
+    throw new CliError(`Configuration file not found: ${configPath}`);
+  }
+
+  let raw: { feeds?: unknown[]; categories?: unknown[] };
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigValidationError(configPath, [invalidJsonIssue(error)]);
+  }
+  raw.feeds = [...(raw.feeds || []), ...feeds];
+
+  const added: string[] = [];
+  if (Array.isArray(raw.categories)) {
+    for (const category of new Set(feeds.map(f => f.category))) {
+      if (!raw.categories.includes(category)) {
+        raw.categories.push(category);
+        added.push(category);
+      }
+    }
+  }
+
+  const { config, issues } = new ConfigValidator().validate(raw);
+  if (!config) {
+    throw new ConfigValidationError(configPath, issues);
+  }
+  fs.writeFileSync(configPath, JSON.stringify(raw, null, 2) + '\n', 'utf-8');
+  return added;
+}
+
+/** `name`, or `name (2)`, `name (3)`... when a feed already has it. */
+export function uniqueFeedName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+/** The newsletters a command works on: every one, or the one named by --newsletter. */
+export function selectNewsletters(config: Config, context: CliContext): Newsletter[] {
+  const newsletters = resolveNewsletters(config);
+  const id = context.options.newsletter;
+  if (id === undefined) return newsletters;
+
+  const newsletter = newsletters.find(n => n.id === id);
+  if (!newsletter) {
+    throw new CliError(`No newsletter "${id}"; configured: ${newsletters.map(n => n.id).join(', ')}`);
+  }
+  return [newsletter];
+}
+
+/**
+ * Opens the database for the duration of `task` and always closes it.
+ * With `snapshot`, the task works on a throwaway in-memory copy.
+ */
+export async function withDatabase<T>(
+  context: CliContext,
+  task: (db: DatabaseManager) => Promise<T> | T,
+  options: { snapshot?: boolean } = {}
+): Promise<T> {
+  const db = new DatabaseManager(context.dbPath, options);
+  try {
+    return await task(db);
+  } finally {
+    db.close();
+  }
+}
+
+export function findFeed(config: Config, name: string): FeedConfig {
+  const feed = config.feeds.find(f => f.name.toLowerCase() === name.toLowerCase());
+  if (!feed) {
+    throw new CliError(`No feed named "${name}". Run "list-feeds" to see the configured feeds.`);
+  }
+  return feed;
+}
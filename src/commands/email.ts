@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { Config, EmailConfig, FeedItem, FetchResult, GenerationStats, RollupRecord, SmtpConfig } from '../types.js';
+import { EmailRenderer, RenderedEmail } from '../emailRenderer.js';
+import { buildEditionModel, buildRollupModel, editionDateOf } from '../edition.js';
+import { addressOf, buildMimeMessage } from '../mime.js';
+import { SmtpClient, SmtpCredentials, SmtpError } from '../smtpClient.js';
+import { CliContext, CliError, loadConfig, selectNewsletters } from './context.js';
+
+export function defaultEmailDir(context: CliContext): string {
+  return path.join(path.dirname(context.outputDir), 'email');
+}
+
+/**
+ * Renders the edition as a multipart message and saves it as
+ * newsletter-YYYY-MM-DD.eml. Subscribers are only ever envelope
+ * recipients, so the saved file names nobody but the sender.
+ */
+export function writeEmailEdition(
+  config: Config,
+  emailDir: string,
+  items: FeedItem[],
+  stats: GenerationStats,
+  feedResults: FetchResult[]
+): string | null {
+  if (!config.email) return null;
+
+  const date = stats.generatedAt;
+  const edition = buildEditionModel(config.newsletter, items, stats, feedResults, [], date);
+  const rendered = new EmailRenderer(config.newsletter, config.email).render(edition);
+  return saveEmail(config.email, path.join(emailDir, `newsletter-${editionDateOf(date, config.newsletter.timeZone)}.eml`), rendered, date);
+}
+
+/** Renders a roll-up for email and saves it as weekly-2026-W42.eml or monthly-2026-10.eml. */
+export function writeRollupEmail(config: Config, emailDir: string, rollup: RollupRecord): string | null {
+  if (!config.email) return null;
+
+  const model = buildRollupModel(config.newsletter, rollup, [], rollup.generatedAt);
+  const rendered = new EmailRenderer(config.newsletter, config.email).render(model);
+  return saveEmail(config.email, path.join(emailDir, `${rollup.cadence}-${rollup.period}.eml`), rendered, rollup.generatedAt);
+}
+
+function saveEmail(email: EmailConfig, emlPath: string, rendered: RenderedEmail, date: Date): string {
+  const message = buildMimeMessage({
+    from: email.from,
+    to: email.from,
+    replyTo: email.replyTo,
+    subject: rendered.subject,
+    date,
+    text: rendered.text,
+    html: rendered.html
+  });
+
+  fs.mkdirSync(path.dirname(emlPath), { recursive: true });
+  fs.writeFileSync(emlPath, message, 'utf-8');
+  console.log(`Email edition written to: ${emlPath}`);
+
+  return emlPath;
+}
+
+function readCredentials(smtp: SmtpConfig): SmtpCredentials | null {
+  const user = process.env[smtp.userEnv];
+  const password = process.env[smtp.passwordEnv];
+
+  if (!user && !password) return null;
+  if (!user || !password) {
+    throw new CliError(`Set both ${smtp.userEnv} and ${smtp.passwordEnv} to log in to ${smtp.host}, or neither to send without logging in`);
+  }
+
+  return { user, password };
+}
+
+export async function deliverEmail(email: EmailConfig, emlPath: string): Promise<void> {
+  if (email.subscribers.length === 0) {
+    console.log('No subscribers configured; nothing sent');
+    return;
+  }
+
+  const client = new SmtpClient(email.smtp, readCredentials(email.smtp));
+  const message = fs.readFileSync(emlPath, 'utf-8');
+
+  console.log(`Sending ${path.basename(emlPath)} to ${email.subscribers.length} subscribers via ${email.smtp.host}:${email.smtp.port}`);
+  try {
+    const result = await client.send(addressOf(email.from), email.subscribers.map(addressOf), message);
+    console.log(`Accepted for ${result.accepted.length} subscribers`);
+    for (const { recipient, reply } of result.rejected) {
+      console.warn(`  ✗ ${recipient}: ${reply}`);
+    }
+  } catch (error) {
+    if (error instanceof SmtpError) {
+      throw new CliError(`${error.message}\nThe message is saved; retry with: send-email ${emlPath}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends a saved edition, by default the most recently written one (a daily
+ * edition or a roll-up) of every newsletter that is emailed.
+ */
+export async function sendEmail(context: CliContext, file: string | undefined): Promise<void> {
+  const config = loadConfig(context);
+  const newsletters = selectNewsletters(config, context).filter(n => n.config.email);
+  if (newsletters.length === 0) {
+    throw new CliError('No "email" section in the configuration');
+  }
+  if (file && newsletters.length > 1) {
+    throw new CliError('Several newsletters are emailed; choose the one to send the file to with --newsletter <id>');
+  }
+
+  for (const newsletter of newsletters) {
+    let emlPath: string;
+    if (file) {
+      emlPath = path.resolve(file);
+    } else {
+      const emailDir = path.join(defaultEmailDir(context), newsletter.output);
+      // Daily editions and roll-ups sort apart by name, so go by when they were written
+      const latest = fs.existsSync(emailDir)
+        ? fs.readdirSync(emailDir)
+          .filter(f => f.endsWith('.eml'))
+          .map(f => ({ name: f, mtime: fs.statSync(path.join(emailDir, f)).mtimeMs }))
+          .sort((a, b) => a.mtime - b.mtime)
+          .pop()?.name
+        : undefined;
+      if (!latest) {
+        throw new CliError(`No saved editions in ${emailDir}; run "generate" first`);
+      }
+      emlPath = path.join(emailDir, latest);
+    }
+
+    if (!fs.existsSync(emlPath)) {
+      throw new CliError(`File not found: ${emlPath}`);
+    }
+
+    await deliverEmail(newsletter.config.email!, emlPath);
+  }
+}
@@ -0,0 +1,167 @@
+import { Config } from '../types.js';
+import { FeedHealthMonitor } from '../feedHealth.js';
+import { FeedInfo } from '../feedFetcher.js';
+import { CheckedCandidate, FeedDiscovery } from '../feedDiscovery.js';
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import {
+  CliContext,
+  CliError,
+  addFeedsToConfigFile,
+  findFeed,
+  loadConfig,
+  uniqueFeedName,
+  withDatabase
+} from './context.js';
+
+export async function listFeeds(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+
+  await withDatabase(context, db => {
+    const healthMonitor = new FeedHealthMonitor(db, config.health);
+    const nameWidth = Math.max(4, ...config.feeds.map(f => f.name.length));
+
+    console.log(`\n${'Name'.padEnd(nameWidth)}  ${'Category'.padEnd(24)}  ${'Status'.padEnd(12)}  URL`);
+    console.log('─'.repeat(nameWidth + 60));
+
+    for (const feed of config.feeds) {
+      const status = feed.enabled ? healthMonitor.getHealth(feed.name).status : 'disabled';
+      console.log(`${feed.name.padEnd(nameWidth)}  ${feed.category.padEnd(24)}  ${status.padEnd(12)}  ${feed.url}`);
+    }
+
+    const enabled = config.feeds.filter(f => f.enabled).length;
+    console.log(`\n${config.feeds.length} feeds, ${enabled} enabled`);
+  });
+}
+
+export async function resetFeed(context: CliContext, name: string | undefined): Promise<void> {
+  if (!name) {
+    throw new CliError('Usage: reset-feed <name>');
+  }
+
+  const config = loadConfig(context);
+  const feed = findFeed(config, name);
+
+  await withDatabase(context, db => {
+    const removed = db.resetFeed(feed.name, feed.url);
+    console.log(`Reset ${feed.name}:`);
+    console.log(`  Processed URLs forgotten: ${removed.processed}`);
+    console.log(`  Fetch history rows removed: ${removed.stats}`);
+    console.log(`  Cache entries removed: ${removed.cache}`);
+  });
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/** The feed's title without a trailing "RSS" or "Feed", else the page title or the host. */
+function suggestName(feed: FeedInfo, pageTitle: string, url: string): string {
+  const title = feed.title
+    .replace(/\s*[-–—|»:]?\s*(?:(?:rss|atom)\s*)?feed$/i, '')
+    .replace(/\s*[-–—|»:]\s*(?:rss|atom)$/i, '')
+    .trim();
+  return title || pageTitle || hostOf(url);
+}
+
+/**
+ * The category of a configured feed from the same site, else the first
+ * configured category named in the feed's title or description, else the
+ * first category.
+ */
+function suggestCategory(config: Config, feed: FeedInfo, url: string): string {
+  const host = hostOf(url);
+  const sameSite = config.feeds.find(f => {
+    try {
+      return hostOf(f.url) === host;
+    } catch {
+      return false;
+    }
+  });
+  if (sameSite) return sameSite.category;
+
+  const text = `${feed.title} ${feed.description}`.toLowerCase();
+  const named = config.categories.find(category =>
+    new RegExp(`\\b${category.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text)
+  );
+  return named || config.categories[0] || 'Uncategorized';
+}
+
+function describeCandidate(candidate: CheckedCandidate): string {
+  const found = { given: 'given', link: 'linked from the page', path: 'common path' }[candidate.source];
+  if (!candidate.ok) {
+    return `${candidate.url}\n      ${found}; not usable: ${candidate.error}`;
+  }
+  const { feed } = candidate;
+  return `${feed.title || candidate.label || '(untitled)'} (${feed.format}, ${feed.itemCount} items)\n      ${candidate.url} (${found})`;
+}
+
+/**
+ * Finds the feeds of a website, checks each one by parsing it, and adds
+ * the first that works (or the one chosen with --pick) to the
+ * configuration file with a suggested name and category.
+ */
+export async function addFeed(context: CliContext, siteUrl: string | undefined): Promise<void> {
+  if (!siteUrl) {
+    throw new CliError('Usage: add-feed <site-url> [--pick <n>] [--name <name>] [--category <name>]');
+  }
+
+  const config = loadConfig(context);
+  const url = /^[a-z][a-z\d+.-]*:\/\//i.test(siteUrl) ? siteUrl : `https://${siteUrl}`;
+  try {
+    new URL(url);
+  } catch {
+    throw new CliError(`"${siteUrl}" is not a URL`);
+  }
+
+  console.log(`Looking for feeds on ${url}...`);
+  const result = await new FeedDiscovery(config.fetch).discover(url);
+  if (result.pageError) {
+    console.log(`  The page could not be read (${result.pageError}); tried the common feed paths instead`);
+  }
+
+  const usable = result.candidates.filter((c): c is Extract<CheckedCandidate, { ok: true }> => c.ok);
+  if (result.candidates.length > 0) {
+    console.log('');
+  }
+  usable.forEach((candidate, index) => console.log(`  ${index + 1}. ${describeCandidate(candidate)}`));
+  for (const candidate of result.candidates.filter(c => !c.ok)) {
+    console.log(`  ✗  ${describeCandidate(candidate)}`);
+  }
+
+  if (usable.length === 0) {
+    throw new CliError(`No feed that can be read was found on ${url}`);
+  }
+
+  const pick = context.options.pick === undefined ? 1 : Number(context.options.pick);
+  if (!Number.isInteger(pick) || pick < 1 || pick > usable.length) {
+    throw new CliError(`--pick must be a number from 1 to ${usable.length}`);
+  }
+  const chosen = usable[pick - 1];
+
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+  const existing = config.feeds.find(f => canonicalizer.canonicalize(f.url) === canonicalizer.canonicalize(chosen.url));
+  if (existing) {
+    throw new CliError(`${chosen.url} is already configured as "${existing.name}"`);
+  }
+
+  const name = uniqueFeedName(
+    context.options.name || suggestName(chosen.feed, result.pageTitle, chosen.url),
+    new Set(config.feeds.map(f => f.name))
+  );
+  const category = context.options.category || suggestCategory(config, chosen.feed, chosen.url);
+  const newCategories = addFeedsToConfigFile(context.configPath, [{
+    name,
+    url: chosen.url,
+    category,
+    enabled: true,
+    ...(chosen.feed.type === 'rss' ? {} : { type: chosen.feed.type })
+  }]);
+
+  console.log(`\nAdded feed ${pick} as "${name}" in ${category}${newCategories.length > 0 ? ' (a new category)' : ''} to ${context.configPath}`);
+  if (usable.length > 1 && context.options.pick === undefined) {
+    console.log(`To add another of the feeds found, run add-feed again with --pick <n>`);
+  }
+  if (!context.options.name || !context.options.category) {
+    console.log('Use --name and --category to choose them yourself, or edit the configuration file');
+  }
+}
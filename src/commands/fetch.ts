@@ -0,0 +1,41 @@
+import { FeedFetcher } from '../feedFetcher.js';
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import { CliContext, CliError, findFeed, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+/**
+ * Fetches a single feed and shows which items a generate run would treat as
+ * new, that is not yet processed by every newsletter (or the one chosen with
+ * --newsletter). The conditional GET cache is bypassed and the database
+ * is read from an in-memory copy, so nothing is written (not even a new
+ * database file) and the next generate run still sees the feed's items.
+ */
+export async function fetchFeed(context: CliContext): Promise<void> {
+  if (!context.options.feed) {
+    throw new CliError('Missing --feed <name>');
+  }
+
+  const config = loadConfig(context);
+  const feed = findFeed(config, context.options.feed);
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+  const newsletters = selectNewsletters(config, context).filter(n => n.config.feeds.includes(feed));
+
+  await withDatabase(context, async db => {
+    const fetcher = new FeedFetcher(config.fetch);
+    const result = await fetcher.fetchFeed(feed);
+
+    if (!result.success) {
+      throw new CliError(`Fetching ${feed.name} failed (${result.errorKind}): ${result.error}`);
+    }
+
+    const processed = newsletters.map(newsletter => db.forNewsletter(newsletter).getProcessedUrls());
+    const isSeen = (url: string) => processed.length > 0 && processed.every(urls => urls.has(url));
+    const items = [...result.items].sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime());
+
+    console.log(`\n${feed.name} (${feed.category}): ${items.length} items\n`);
+    for (const item of items) {
+      const status = isSeen(canonicalizer.canonicalize(item.link)) ? 'seen' : 'new ';
+      console.log(`  [${status}] ${item.pubDate.toISOString().split('T')[0]}  ${item.title}`);
+      console.log(`         ${item.link}`);
+    }
+  }, { snapshot: true });
+}
@@ -0,0 +1,246 @@
+import path from 'path';
+import { EmailConfig, GenerationStats } from '../types.js';
+import { DatabaseManager } from '../database.js';
+import { EditionDraft, EditionPipeline, FetchedFeeds, fetchForNewsletters } from '../pipeline.js';
+import { NewsletterGenerator } from '../newsletterGenerator.js';
+import { Newsletter, newsletterOutputDir, resolveNewsletters } from '../newsletters.js';
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import { ROLLUP_CADENCES, buildEditionNavigation, createEditionRecord, lastCompletedPeriod, mergeEditions } from '../edition.js';
+import { toSearchDocuments } from '../search.js';
+import { defaultEmailDir, deliverEmail, writeEmailEdition } from './email.js';
+import { publishRollup } from './rollup.js';
+import { CliContext, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+export async function generate(context: CliContext): Promise<void> {
+  console.log('='.repeat(60));
+  console.log('RSS Newsletter Generator');
+  console.log('='.repeat(60));
+  console.log(`Started at: ${new Date().toISOString()}\n`);
+
+  // Load configuration
+  const config = loadConfig(context);
+  const newsletters = selectNewsletters(config, context);
+  console.log(`Loaded configuration: ${config.feeds.length} feeds configured`);
+  for (const { config: { newsletter } } of newsletters) {
+    console.log(`Newsletter: "${newsletter.title}"`);
+    console.log(`Max items per feed: ${newsletter.maxItemsPerFeed}`);
+    console.log(`Max total items: ${newsletter.maxTotalItems}`);
+  }
+
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+
+  await withDatabase(context, async db => {
+    // Feeds shared by several newsletters are fetched once. The conditional
+    // GET cache is shared too, so a run for only some newsletters must not
+    // use it, or the others would never see what changed
+    const everyNewsletter = newsletters.length === resolveNewsletters(config).length;
+    const fetched = await fetchForNewsletters(config, newsletters, db, everyNewsletter);
+
+    // Record feed stats before the editions are built, so the feed health
+    // they show includes this run; the new items are counted afterwards
+    const feedStatsIds = new Map(fetched.results.map(result => [
+      result.feedName,
+      db.recordFeedStats(
+        result.feedName,
+        result.items.length,
+        0,
+        result.success,
+        result.error,
+        result.fromCache,
+        result.errorKind
+      )
+    ]));
+    const newUrls = new Map<string, Set<string>>();
+    const emails: { email?: EmailConfig; emlPaths: string[] }[] = [];
+
+    for (const newsletter of newsletters) {
+      if (newsletters.length > 1) {
+        console.log(`\n${'='.repeat(60)}`);
+        console.log(`${newsletter.config.newsletter.title} (${newsletter.id})`);
+        console.log('='.repeat(60));
+      }
+
+      const { draft, emlPaths } = await generateNewsletter(context, newsletter, db.forNewsletter(newsletter), fetched);
+      emails.push({ email: newsletter.config.email, emlPaths });
+      for (const item of draft.newItems) {
+        const urls = newUrls.get(item.feedName) || new Set<string>();
+        urls.add(canonicalizer.canonicalize(item.link));
+        newUrls.set(item.feedName, urls);
+      }
+    }
+
+    // An item new to several newsletters counts once
+    for (const [feedName, id] of feedStatsIds) {
+      db.setFeedStatsNewItems(id, newUrls.get(feedName)?.size ?? 0);
+    }
+
+    // Validators are saved only now that every edition is written and its
+    // items marked processed: a run that fails earlier downloads the feeds
+    // in full next time instead of getting a 304 for items it never used
+    db.saveFeedCaches(fetched.results.flatMap(result => result.cacheUpdate ? [result.cacheUpdate] : []));
+
+    if (config.newsletters) {
+      new NewsletterGenerator(config.newsletter, context.outputDir).writeNewsletterIndex(resolveNewsletters(config));
+    }
+
+    // Sent last: a delivery failure leaves complete editions that send-email can retry
+    if (context.options.send) {
+      for (const { email, emlPaths } of emails) {
+        if (!email) {
+          console.warn('\n--send was given but the configuration has no "email" section');
+          continue;
+        }
+        for (const emlPath of emlPaths) {
+          console.log('');
+          await deliverEmail(email, emlPath);
+        }
+      }
+    }
+
+    console.log(`\n${'='.repeat(60)}`);
+    console.log('Generation Complete!');
+    console.log(`${'='.repeat(60)}`);
+    for (const newsletter of newsletters) {
+      console.log(`Output: ${path.join(newsletterOutputDir(context.outputDir, newsletter), 'index.html')}`);
+    }
+    console.log(`Completed at: ${new Date().toISOString()}`);
+  });
+}
+
+/**
+ * Builds one newsletter's edition from the run's feeds and publishes it:
+ * the pages, the email edition and the search archive, then records what
+ * was used so later runs skip it. Roll-ups of a week or month that has
+ * ended since the last run are published as well. Returns the email
+ * editions to send.
+ */
+async function generateNewsletter(
+  context: CliContext,
+  newsletter: Newsletter,
+  db: DatabaseManager,
+  fetched: FetchedFeeds
+): Promise<{ draft: EditionDraft; emlPaths: string[] }> {
+  const { config } = newsletter;
+  const pipeline = new EditionPipeline(config, db);
+  pipeline.prepareDatabase();
+
+  const draft = pipeline.process(fetched);
+  const { results, selected, attached } = draft;
+  const successfulFeeds = results.filter(r => r.success).length;
+  const failedFeeds = results.filter(r => !r.success).length;
+  const duplicatesRemoved = draft.duplicates.length;
+
+  const feedHealth = pipeline.healthMonitor.getAllHealth(
+    config.feeds.filter(f => f.enabled).map(f => f.name)
+  );
+
+  // Generate newsletter
+  const generator = new NewsletterGenerator(
+    config.newsletter,
+    newsletterOutputDir(context.outputDir, newsletter)
+  );
+
+  const stats: GenerationStats = {
+    totalFeeds: results.length,
+    successfulFeeds,
+    failedFeeds,
+    newItems: selected.length,
+    duplicatesRemoved,
+    generatedAt: new Date()
+  };
+
+  // A second run on the same day adds its stories to that day's edition
+  const run = createEditionRecord(selected, stats, results, feedHealth, config.newsletter.timeZone);
+  const earlier = db.getEdition(run.date);
+  const edition = earlier ? mergeEditions(earlier, run) : run;
+  db.saveEdition(edition);
+
+  const manifest = generator.openManifest(() => db.getEditionSummaries());
+  await generator.writeNewsletter(edition, manifest, date => db.getEdition(date));
+  generator.writeOpml(config.feeds, config.categories);
+
+  // Give the previous edition's page its link to this one
+  const previous = buildEditionNavigation(config.newsletter, manifest.editions, edition.date).previous;
+  const previousEdition = previous && db.getEdition(previous.date);
+  if (previousEdition) {
+    generator.writeEdition(previousEdition, manifest);
+  }
+  const restored = generator.writeMissingEditions(manifest, date => db.getEdition(date));
+  if (restored.length > 0) {
+    console.log(`Restored ${restored.length} archived edition page(s) from the database`);
+  }
+
+  const emlPath = config.newsletter.editions.daily.email
+    ? writeEmailEdition(config, path.join(defaultEmailDir(context), newsletter.output), edition.items, edition.stats, results)
+    : null;
+
+  // The search archive outlives processed_items, so old editions stay findable
+  const canonicalize = (item: { link: string }) => pipeline.canonicalizer.canonicalize(item.link);
+  db.indexForSearch(toSearchDocuments(selected, canonicalize, edition.date));
+  generator.writeSearchPage(db.getSearchDocuments());
+
+  // Mark new items, the sources folded into them and attached items as processed
+  const processedItems = [
+    ...selected.flatMap(item => [item, ...(item.alsoCoveredBy || [])]),
+    ...attached
+  ];
+  if (processedItems.length > 0) {
+    db.markMultipleAsProcessed(
+      processedItems.map(item => ({
+        url: canonicalize(item),
+        feedName: item.feedName,
+        title: item.title
+      }))
+    );
+    console.log(`\nMarked ${processedItems.length} items as processed`);
+  }
+
+  pipeline.clusterer.record(selected, attached, canonicalize);
+
+  // Keep the breakdowns so the scores command can explain the ranking
+  if (draft.scores.size > 0) {
+    const selectedSet = new Set(selected);
+    db.recordItemScores(
+      stats.generatedAt.toISOString(),
+      Array.from(draft.scores, ([item, breakdown]) => ({
+        url: canonicalize(item),
+        feedName: item.feedName,
+        title: item.title,
+        category: item.category,
+        selected: selectedSet.has(item),
+        breakdown
+      }))
+    );
+  }
+
+  // Record generation stats
+  db.recordGeneration({
+    totalFeeds: results.length,
+    successfulFeeds,
+    failedFeeds,
+    newItems: selected.length,
+    duplicatesRemoved
+  });
+
+  const emlPaths = emlPath ? [emlPath] : [];
+  for (const cadence of ROLLUP_CADENCES) {
+    if (!config.newsletter.editions[cadence]) continue;
+    const period = lastCompletedPeriod(cadence, edition.date);
+    if (db.getRollupSummaries(cadence).some(r => r.period === period.key)) continue;
+
+    const published = publishRollup(context, newsletter, db, period);
+    if (published?.emlPath) {
+      emlPaths.push(published.emlPath);
+    }
+  }
+  for (const cadence of ROLLUP_CADENCES) {
+    const rollups = db.getRollupSummaries(cadence);
+    if (rollups.length === 0) continue;
+    const written = generator.writeMissingRollups(cadence, rollups, period => db.getRollup(cadence, period));
+    if (written > 0) {
+      console.log(`Restored ${written} ${cadence} roll-up page(s) from the database`);
+    }
+  }
+
+  return { draft, emlPaths };
+}
@@ -0,0 +1,53 @@
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import { CliContext, CliError, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+export async function forget(context: CliContext, url: string | undefined): Promise<void> {
+  if (!url) {
+    throw new CliError('Usage: forget <url>');
+  }
+
+  const config = loadConfig(context);
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+
+  await withDatabase(context, db => {
+    // URLs are stored in canonical form; also try the literal URL for older rows
+    const candidates = Array.from(new Set([canonicalizer.canonicalize(url), url]));
+    const removed = candidates.reduce((total, candidate) => total + db.forgetUrl(candidate), 0);
+
+    if (removed === 0) {
+      console.log(`Not found in the database: ${url}`);
+    } else {
+      console.log(`Forgot ${url}; it will be included again the next time it appears in a feed`);
+    }
+  });
+}
+
+/**
+ * Each newsletter's processed URLs are kept for its own retentionDays
+ * unless --days is given; fetch history uses the main newsletter's.
+ */
+export async function prune(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+  const days = context.options.days !== undefined
+    ? Number(context.options.days)
+    : config.newsletter.retentionDays;
+
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new CliError(`--days must be a positive whole number, got "${context.options.days}"`);
+  }
+
+  await withDatabase(context, db => {
+    const processed = selectNewsletters(config, context).reduce((total, newsletter) => {
+      const retention = context.options.days !== undefined ? days : newsletter.config.newsletter.retentionDays;
+      return total + db.forNewsletter(newsletter).cleanOldEntries(retention);
+    }, 0);
+    const stats = db.pruneFeedStats(days);
+    const cache = db.pruneFeedCache(config.feeds.map(f => f.url));
+    db.vacuum();
+
+    console.log(`Pruned entries older than ${days} days:`);
+    console.log(`  Processed URLs: ${processed}`);
+    console.log(`  Fetch history rows: ${stats}`);
+    console.log(`  Cache entries for removed feeds: ${cache}`);
+  });
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { FeedConfig } from '../types.js';
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import { parseOpml, renderOpml } from '../opml.js';
+import {
+  CliContext,
+  CliError,
+  addFeedsToConfigFile,
+  loadConfig,
+  selectNewsletters,
+  uniqueFeedName
+} from './context.js';
+
+const DEFAULT_CATEGORY = 'Uncategorized';
+
+/**
+ * Merges the feeds of an OPML file into the configuration's "feeds". Each
+ * feed's folder becomes its category, and categories missing from an
+ * explicit "categories" list are added to it. Feeds whose URL is already
+ * configured, or repeated in the file, are skipped.
+ */
+export async function importOpml(context: CliContext, file: string | undefined): Promise<void> {
+  if (!file) {
+    throw new CliError('Usage: import-opml <file>');
+  }
+  const opmlPath = path.resolve(file);
+  if (!fs.existsSync(opmlPath)) {
+    throw new CliError(`OPML file not found: ${opmlPath}`);
+  }
+
+  const config = loadConfig(context);
+  const outlines = parseOpml(fs.readFileSync(opmlPath, 'utf-8'), opmlPath);
+  if (outlines.length === 0) {
+    throw new CliError(`${opmlPath} lists no feeds`);
+  }
+
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+  const known = new Map(config.feeds.map(feed => [canonicalizer.canonicalize(feed.url), feed.name]));
+  const names = new Set(config.feeds.map(feed => feed.name));
+  const added: FeedConfig[] = [];
+  const skipped: { title: string; existing: string }[] = [];
+
+  for (const outline of outlines) {
+    const url = canonicalizer.canonicalize(outline.xmlUrl);
+    const existing = known.get(url);
+    if (existing !== undefined) {
+      skipped.push({ title: outline.title, existing });
+      continue;
+    }
+
+    const name = uniqueFeedName(outline.title, names);
+    names.add(name);
+    known.set(url, name);
+    added.push({ name, url: outline.xmlUrl, category: outline.folder || DEFAULT_CATEGORY, enabled: true });
+  }
+
+  const newCategories = added.length > 0 ? addFeedsToConfigFile(context.configPath, added) : [];
+
+  console.log(`Importing ${outlines.length} feeds from ${opmlPath}\n`);
+  for (const feed of added) {
+    console.log(`  + ${feed.name} (${feed.category})`);
+    console.log(`      ${feed.url}`);
+  }
+  for (const { title, existing } of skipped) {
+    console.log(`  = ${title}: already configured as "${existing}"`);
+  }
+  if (newCategories.length > 0) {
+    console.log(`\nNew categories: ${newCategories.join(', ')}`);
+  }
+  console.log(`\n${added.length} feed(s) added, ${skipped.length} duplicate(s) skipped`);
+  if (added.length > 0) {
+    console.log(`Saved ${context.configPath}`);
+  }
+}
+
+/**
+ * Writes the configured feeds, grouped by category, as OPML to `file` or
+ * to stdout. With --newsletter, only the feeds that newsletter uses.
+ */
+export async function exportOpml(context: CliContext, file: string | undefined): Promise<void> {
+  const config = loadConfig(context);
+  const { config: selected } = context.options.newsletter
+    ? selectNewsletters(config, context)[0]
+    : { config };
+
+  const opml = renderOpml(
+    { title: selected.newsletter.title, ownerName: selected.newsletter.author },
+    selected.feeds,
+    selected.categories
+  );
+
+  if (!file) {
+    process.stdout.write(opml);
+    return;
+  }
+  const opmlPath = path.resolve(file);
+  fs.writeFileSync(opmlPath, opml, 'utf-8');
+  console.log(`${(opml.match(/xmlUrl=/g) || []).length} feeds written to ${opmlPath}`);
+}
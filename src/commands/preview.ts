@@ -0,0 +1,140 @@
+import path from 'path';
+import { FeedItem, GenerationStats, SelectionCutReason } from '../types.js';
+import { DatabaseManager } from '../database.js';
+import { EditionPipeline, FetchedFeeds, fetchForNewsletters } from '../pipeline.js';
+import { NewsletterGenerator } from '../newsletterGenerator.js';
+import { Newsletter, resolveNewsletters } from '../newsletters.js';
+import { createEditionRecord, mergeEditions } from '../edition.js';
+import { toSearchDocuments } from '../search.js';
+import { writeEmailEdition } from './email.js';
+import { CliContext, CliError, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+const CUT_REASONS: Record<SelectionCutReason, string> = {
+  'total-limit': 'maxTotalItems reached',
+  'feed-share': 'feed reached its maxFeedShare',
+  'category-max': 'category reached its max'
+};
+
+function describe(item: FeedItem): string {
+  return `${item.feedName}: ${item.title}\n        ${item.link}`;
+}
+
+function printSection(title: string, lines: string[]): void {
+  console.log(`\n${title} (${lines.length})`);
+  console.log('─'.repeat(60));
+  if (lines.length === 0) {
+    console.log('  none');
+  }
+  for (const line of lines) {
+    console.log(`  ${line}`);
+  }
+}
+
+/**
+ * Runs the full pipeline against an in-memory copy of the database and
+ * renders into a separate directory. The database file and the published
+ * output are never touched, so a preview does not use up the day's items.
+ */
+export async function preview(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+  const newsletters = selectNewsletters(config, context);
+  const previewDir = context.options.previewDir
+    ? path.resolve(context.options.previewDir)
+    : path.join(path.dirname(context.outputDir), 'preview');
+
+  if (!context.options.summary && path.resolve(previewDir) === path.resolve(context.outputDir)) {
+    throw new CliError('The preview directory must differ from the output directory');
+  }
+
+  console.log(`Preview of ${newsletters.map(n => `"${n.config.newsletter.title}"`).join(', ')} (nothing will be saved)\n`);
+
+  await withDatabase(context, async db => {
+    const fetched = await fetchForNewsletters(config, newsletters, db, false);
+
+    for (const newsletter of newsletters) {
+      if (newsletters.length > 1) {
+        console.log(`\n${'='.repeat(60)}`);
+        console.log(`${newsletter.config.newsletter.title} (${newsletter.id})`);
+        console.log('='.repeat(60));
+      }
+      await previewNewsletter(context, newsletter, db.forNewsletter(newsletter), fetched, path.join(previewDir, newsletter.output));
+    }
+
+    if (context.options.summary) {
+      return;
+    }
+
+    if (config.newsletters) {
+      new NewsletterGenerator(config.newsletter, previewDir).writeNewsletterIndex(resolveNewsletters(config));
+    }
+    console.log(`\nPreview written to: ${path.join(previewDir, 'index.html')}`);
+  }, { snapshot: true });
+}
+
+async function previewNewsletter(
+  context: CliContext,
+  newsletter: Newsletter,
+  db: DatabaseManager,
+  fetched: FetchedFeeds,
+  previewDir: string
+): Promise<void> {
+  const { config } = newsletter;
+  const pipeline = new EditionPipeline(config, db);
+  pipeline.prepareDatabase();
+
+  const draft = pipeline.process(fetched);
+  const canonicalize = (item: { link: string }) => pipeline.canonicalizer.canonicalize(item.link);
+
+  printSection('Would be included', draft.selected.map(item => {
+    const coveredBy = item.alsoCoveredBy && item.alsoCoveredBy.length > 0
+      ? `\n        also covered by ${item.alsoCoveredBy.map(other => other.feedName).join(', ')}`
+      : '';
+    const score = item.score !== undefined ? ` (score ${item.score})` : '';
+    return `[${item.category}]${score} ${describe(item)}${coveredBy}`;
+  }));
+  printSection('Deduplicated (already processed or repeated)', draft.duplicates.map(describe));
+  printSection('Dropped by filters', draft.filtered.map(f => `${describe(f.item)}\n        rule [${f.scope}] ${f.rule}`));
+  printSection('Attached to earlier stories', draft.attached.map(describe));
+  printSection('Cut by selection', draft.cut.map(c => `${describe(c.item)}\n        ${CUT_REASONS[c.reason]}`));
+  printSection('Category minimums not met', draft.shortfalls.map(s => `${s.category}: ${s.selected} of ${s.min}`));
+  printSection('Failed feeds', draft.results.filter(r => !r.success).map(r => `${r.feedName} (${r.errorKind}): ${r.error}`));
+  printSection('Skipped (quarantined)', draft.skippedFeeds.map(h => h.feedName));
+
+  // Marked in the in-memory copy only, so newsletters sharing a
+  // deduplication namespace preview as they would be generated
+  db.markMultipleAsProcessed(
+    [...draft.selected.flatMap(item => [item, ...(item.alsoCoveredBy || [])]), ...draft.attached]
+      .map(item => ({ url: canonicalize(item), feedName: item.feedName, title: item.title }))
+  );
+
+  if (context.options.summary) {
+    return;
+  }
+
+  const stats: GenerationStats = {
+    totalFeeds: draft.results.length,
+    successfulFeeds: draft.results.filter(r => r.success).length,
+    failedFeeds: draft.results.filter(r => !r.success).length,
+    newItems: draft.selected.length,
+    duplicatesRemoved: draft.duplicates.length,
+    generatedAt: new Date()
+  };
+  const feedHealth = pipeline.healthMonitor.getAllHealth(
+    config.feeds.filter(f => f.enabled).map(f => f.name)
+  );
+
+  const generator = new NewsletterGenerator(config.newsletter, previewDir);
+  // Stored and indexed in the in-memory copy only
+  const run = createEditionRecord(draft.selected, stats, draft.results, feedHealth, config.newsletter.timeZone);
+  const earlier = db.getEdition(run.date);
+  const edition = earlier ? mergeEditions(earlier, run) : run;
+  db.saveEdition(edition);
+
+  // The manifest is rebuilt from the database copy, so the preview archive matches the real one
+  await generator.writeNewsletter(edition, generator.openManifest(() => db.getEditionSummaries(), true), date => db.getEdition(date));
+  generator.writeOpml(config.feeds, config.categories);
+  writeEmailEdition(config, previewDir, edition.items, edition.stats, draft.results);
+
+  db.indexForSearch(toSearchDocuments(draft.selected, canonicalize, edition.date));
+  generator.writeSearchPage(db.getSearchDocuments());
+}
@@ -0,0 +1,74 @@
+import path from 'path';
+import { NewsletterGenerator } from '../newsletterGenerator.js';
+import { ROLLUP_CADENCES } from '../edition.js';
+import { newsletterOutputDir, resolveNewsletters } from '../newsletters.js';
+import { UrlCanonicalizer } from '../urlCanonicalizer.js';
+import { toSearchDocuments } from '../search.js';
+import { CliContext, CliError, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+/**
+ * Renders every stored edition and roll-up again, together with index.html,
+ * the archive pages, editions.json and the search page, without fetching anything.
+ * Meant for theme changes; the published feeds and email editions are left
+ * as they are.
+ */
+export async function rebuild(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+  const newsletters = selectNewsletters(config, context);
+  const canonicalizer = new UrlCanonicalizer(config.canonicalization);
+
+  await withDatabase(context, async root => {
+    let rebuilt = 0;
+
+    for (const newsletter of newsletters) {
+      const db = root.forNewsletter(newsletter);
+      const outputDir = newsletterOutputDir(context.outputDir, newsletter);
+      const editions = db.getEditionSummaries();
+      if (editions.length === 0) {
+        if (newsletters.length > 1) {
+          console.log(`\nNo editions of "${newsletter.id}" are stored yet`);
+        }
+        continue;
+      }
+
+      const generator = new NewsletterGenerator(newsletter.config.newsletter, outputDir);
+      const manifest = generator.openManifest(() => editions, true);
+      console.log(`\nRebuilding ${editions.length} edition${editions.length === 1 ? '' : 's'} in ${outputDir}`);
+
+      // Loaded one at a time to keep memory flat on a long archive
+      for (const summary of editions) {
+        const edition = db.getEdition(summary.date)!;
+        const file = generator.writeEdition(edition, manifest);
+        console.log(`  ${path.basename(file)} (${summary.itemCount} articles)`);
+
+        db.indexForSearch(toSearchDocuments(edition.items, item => canonicalizer.canonicalize(item.link), edition.date));
+      }
+
+      generator.writeArchivePages(manifest);
+      generator.writeSearchPage(db.getSearchDocuments());
+      generator.writeOpml(newsletter.config.feeds, newsletter.config.categories);
+
+      // Roll-ups keep the stories chosen when they were built
+      for (const cadence of ROLLUP_CADENCES) {
+        const rollups = db.getRollupSummaries(cadence);
+        if (rollups.length === 0) continue;
+
+        for (const summary of rollups) {
+          const file = generator.writeRollup(db.getRollup(cadence, summary.period)!, rollups);
+          console.log(`  ${path.basename(file)} (${summary.itemCount} articles)`);
+        }
+        generator.writeRollupIndex(cadence, rollups);
+      }
+      rebuilt++;
+    }
+
+    if (rebuilt === 0) {
+      throw new CliError('No editions are stored in the database yet; run "generate" first');
+    }
+
+    if (config.newsletters) {
+      new NewsletterGenerator(config.newsletter, context.outputDir).writeNewsletterIndex(resolveNewsletters(config));
+    }
+    console.log(`\nOutput: ${path.join(context.outputDir, 'index.html')}`);
+  });
+}
@@ -0,0 +1,102 @@
+import path from 'path';
+import { EmailConfig, RollupCadence, RollupRecord } from '../types.js';
+import { DatabaseManager } from '../database.js';
+import { NewsletterGenerator } from '../newsletterGenerator.js';
+import { Newsletter, newsletterOutputDir } from '../newsletters.js';
+import { RollupBuilder } from '../rollup.js';
+import {
+  ROLLUP_CADENCES,
+  RollupPeriod,
+  editionDateOf,
+  lastCompletedPeriod,
+  parseRollupPeriod,
+  rollupFilename
+} from '../edition.js';
+import { defaultEmailDir, deliverEmail, writeRollupEmail } from './email.js';
+import { CliContext, CliError, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+/**
+ * Builds and stores a newsletter's roll-up of `period`, then writes its
+ * page, the pages of its neighbours (for their links to it) and the index
+ * of its cadence, and the email edition if the roll-up is emailed. Null
+ * when no edition with any stories was published in the period.
+ */
+export function publishRollup(
+  context: CliContext,
+  newsletter: Newsletter,
+  db: DatabaseManager,
+  period: RollupPeriod
+): { rollup: RollupRecord; emlPath: string | null } | null {
+  const { config } = newsletter;
+  const rollup = new RollupBuilder(config, db).build(period);
+  if (!rollup) return null;
+  db.saveRollup(rollup);
+
+  const generator = new NewsletterGenerator(config.newsletter, newsletterOutputDir(context.outputDir, newsletter));
+  const rollups = db.getRollupSummaries(period.cadence);
+  const file = generator.writeRollup(rollup, rollups);
+  console.log(`\n${period.cadence === 'weekly' ? 'Weekly' : 'Monthly'} roll-up written to: ${file} (${rollup.items.length} of ${rollup.candidateCount} articles)`);
+
+  const index = rollups.findIndex(r => r.period === rollup.period);
+  for (const neighbour of [rollups[index - 1], rollups[index + 1]]) {
+    const stored = neighbour && db.getRollup(period.cadence, neighbour.period);
+    if (stored) {
+      generator.writeRollup(stored, rollups);
+    }
+  }
+  generator.writeRollupIndex(period.cadence, rollups);
+
+  const emlPath = config.newsletter.editions[period.cadence]?.email
+    ? writeRollupEmail(config, path.join(defaultEmailDir(context), newsletter.output), rollup)
+    : null;
+  return { rollup, emlPath };
+}
+
+/**
+ * Builds the weekly or monthly roll-up of `key` (by default the last
+ * completed week or month) again from the stored daily editions, for
+ * every newsletter that has that cadence.
+ */
+export async function rollup(context: CliContext, args: string[]): Promise<void> {
+  const [cadence, key] = args as [RollupCadence | undefined, string | undefined];
+  if (!cadence || !ROLLUP_CADENCES.includes(cadence)) {
+    throw new CliError('Usage: rollup <weekly|monthly> [period] [--send]');
+  }
+
+  const config = loadConfig(context);
+  const newsletters = selectNewsletters(config, context).filter(n => n.config.newsletter.editions[cadence]);
+  if (newsletters.length === 0) {
+    throw new CliError(`No ${cadence} roll-up is configured; add "editions": { "${cadence}": {} } to the "newsletter" section`);
+  }
+
+  const requested = key === undefined ? null : parseRollupPeriod(cadence, key);
+  if (key !== undefined && !requested) {
+    throw new CliError(`"${key}" is not a ${cadence === 'weekly' ? 'week such as 2026-W42' : 'month such as 2026-10'}`);
+  }
+
+  await withDatabase(context, async root => {
+    const emails: { email: EmailConfig; emlPath: string }[] = [];
+
+    for (const newsletter of newsletters) {
+      // Newsletters in different time zones may be on different days
+      const period = requested || lastCompletedPeriod(cadence, editionDateOf(new Date(), newsletter.config.newsletter.timeZone));
+      const published = publishRollup(context, newsletter, root.forNewsletter(newsletter), period);
+      if (!published) {
+        const which = newsletters.length > 1 ? ` of ${newsletter.config.newsletter.title}` : '';
+        console.log(`\nNo editions${which} with any articles were published from ${period.start} to ${period.end}; ${rollupFilename(cadence, period.key)} was not written`);
+      } else if (published.emlPath) {
+        emails.push({ email: newsletter.config.email!, emlPath: published.emlPath });
+      }
+    }
+
+    if (context.options.send) {
+      if (emails.length === 0) {
+        console.warn('\n--send was given but no roll-up was emailed');
+      }
+      for (const { email, emlPath } of emails) {
+        console.log('');
+        await deliverEmail(email, emlPath);
+      }
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import { toMatchQuery } from '../search.js';
+import { CliContext, CliError, findFeed, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+/**
+ * Searches every item that was ever published, including ones whose URLs
+ * have already expired from the processed list.
+ */
+export async function search(context: CliContext, words: string[]): Promise<void> {
+  const input = words.join(' ');
+  const query = toMatchQuery(input);
+  if (!query) {
+    throw new CliError('Usage: search <words> [--feed <name>] [--limit <n>]');
+  }
+
+  const limit = context.options.limit !== undefined ? Number(context.options.limit) : 20;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new CliError(`--limit must be a positive whole number, got "${context.options.limit}"`);
+  }
+
+  const config = loadConfig(context);
+  const feedName = context.options.feed ? findFeed(config, context.options.feed).name : undefined;
+  const newsletters = selectNewsletters(config, context);
+
+  await withDatabase(context, db => {
+    for (const newsletter of newsletters) {
+      const results = db.forNewsletter(newsletter).search(query, { feedName, limit });
+      const where = newsletters.length > 1 ? ` in ${newsletter.config.newsletter.title}` : '';
+
+      console.log(`\n${results.length === 0 ? 'No' : results.length} result${results.length === 1 ? '' : 's'} for "${input}"${where}${results.length === limit ? ` (showing the first ${limit})` : ''}`);
+      console.log('─'.repeat(60));
+
+      for (const result of results) {
+        console.log(`${result.editionDate}  ${result.feedName} [${result.category}]`);
+        console.log(`  ${result.title}`);
+        if (result.snippet) {
+          console.log(`  ${result.snippet}`);
+        }
+        console.log(`  ${result.link}\n`);
+      }
+    }
+  });
+}
@@ -0,0 +1,117 @@
+import { FeedHealthMonitor } from '../feedHealth.js';
+import { ScoreBreakdown } from '../types.js';
+import { CliContext, CliError, findFeed, loadConfig, selectNewsletters, withDatabase } from './context.js';
+
+export async function stats(context: CliContext): Promise<void> {
+  const newsletters = selectNewsletters(loadConfig(context), context);
+
+  await withDatabase(context, db => {
+    for (const newsletter of newsletters) {
+      const view = db.forNewsletter(newsletter);
+      const of = newsletters.length > 1 ? ` of ${newsletter.config.newsletter.title}` : '';
+
+      console.log(`\nProcessed URLs${of}: ${view.getProcessedCount()}`);
+
+      const generations = view.getRecentGenerations(10);
+      console.log(`\nRecent generations${of}`);
+      console.log('─'.repeat(60));
+      if (generations.length === 0) {
+        console.log('  No generations recorded yet');
+      }
+      for (const g of generations) {
+        console.log(`  ${g.generated_at}  ${g.new_items} new, ${g.duplicates_removed} duplicates, feeds ${g.successful_feeds}/${g.total_feeds}`);
+      }
+    }
+
+    const feeds = db.getFeedStatsSummary();
+    console.log(`\nFeeds`);
+    console.log('─'.repeat(60));
+    for (const feed of feeds) {
+      const rate = Math.round((feed.successes / feed.fetches) * 100);
+      console.log(`  ${feed.feedName}: ${feed.fetches} fetches (${rate}% ok), ${feed.itemsNew} new items, last ${feed.lastFetch}`);
+    }
+  });
+}
+
+export async function health(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+
+  await withDatabase(context, db => {
+    const healthMonitor = new FeedHealthMonitor(db, config.health);
+
+    console.log(`\nFeed Health Report`);
+    console.log('─'.repeat(60));
+
+    for (const feed of config.feeds.filter(f => f.enabled)) {
+      const feedHealth = healthMonitor.getHealth(feed.name);
+      const rate = feedHealth.successRate === null ? 'n/a' : `${Math.round(feedHealth.successRate * 100)}%`;
+      const since = feedHealth.since ? ` since ${feedHealth.since}` : '';
+
+      console.log(`${feedHealth.status.toUpperCase().padEnd(12)} ${feed.name}${since}`);
+      console.log(`             success rate ${rate}, consecutive failures ${feedHealth.consecutiveFailures}`);
+      if (feedHealth.status !== 'healthy' && feedHealth.lastError) {
+        console.log(`             last error (${feedHealth.lastErrorKind || 'unknown'}): ${feedHealth.lastError}`);
+      }
+      if (feedHealth.nextProbe) {
+        console.log(`             next probe ${feedHealth.nextProbe}`);
+      }
+    }
+  });
+}
+
+function describeScore(breakdown: ScoreBreakdown): string {
+  const parts = [
+    `recency ${breakdown.recency}`,
+    `coverage ${breakdown.coverage}`,
+    `description ${breakdown.description}`,
+    ...breakdown.rules.map(r => `${r.rule} ${r.points > 0 ? '+' : ''}${r.points}`)
+  ];
+  const weight = breakdown.feedWeight !== 1 ? ` × weight ${breakdown.feedWeight}` : '';
+  return `(${parts.join(', ')})${weight}`;
+}
+
+/**
+ * Shows how the last run (or every run of the past --days) ranked its
+ * stories, to help tune the scoring weights and rules.
+ */
+export async function scores(context: CliContext): Promise<void> {
+  const config = loadConfig(context);
+  const feedName = context.options.feed ? findFeed(config, context.options.feed).name : undefined;
+
+  let since: string | undefined;
+  if (context.options.days !== undefined) {
+    const days = Number(context.options.days);
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new CliError(`--days must be a positive whole number, got "${context.options.days}"`);
+    }
+    since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const newsletters = selectNewsletters(config, context);
+
+  await withDatabase(context, db => {
+    const scored = newsletters
+      .map(newsletter => ({ newsletter, rows: db.forNewsletter(newsletter).getItemScores({ since, feedName }) }))
+      .filter(({ rows }) => rows.length > 0);
+    if (scored.length === 0) {
+      console.log('No scores recorded yet; they are saved by "generate" while scoring is enabled');
+      return;
+    }
+
+    for (const { newsletter, rows } of scored) {
+      const of = newsletters.length > 1 ? ` of ${newsletter.config.newsletter.title}` : '';
+      let run = '';
+      for (const row of rows) {
+        if (row.scoredAt !== run) {
+          run = row.scoredAt;
+          console.log(`\nRun${of} of ${run}`);
+          console.log('─'.repeat(60));
+        }
+        const mark = row.selected ? '✓' : ' ';
+        console.log(`${mark} ${row.breakdown.total.toFixed(3).padStart(8)}  ${row.feedName}: ${row.title}`);
+        console.log(`            ${describeScore(row.breakdown)}`);
+      }
+    }
+    console.log('\n✓ = included in the edition');
+  });
+}
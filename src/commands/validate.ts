@@ -0,0 +1,21 @@
+import path from 'path';
+import { formatIssues } from '../configValidator.js';
+import { CliContext, CliError, readConfig } from './context.js';
+
+export async function validate(context: CliContext, file: string | undefined): Promise<void> {
+  const configPath = file ? path.resolve(file) : context.configPath;
+  const { config, issues } = readConfig(configPath);
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  console.log(`Validating ${configPath}`);
+  if (issues.length > 0) {
+    console.log(formatIssues(issues));
+  }
+
+  if (!config) {
+    throw new CliError(`${errors} error(s), ${warnings} warning(s)`);
+  }
+
+  console.log(`\nConfiguration is valid: ${config.feeds.length} feeds, ${config.categories.length} categories, ${warnings} warning(s)`);
+}
@@ -0,0 +1,1045 @@
+import {
+  Config,
+  EditionsConfig,
+  EmailConfig,
+  FeedSourceType,
+  FilterRule,
+  NewsletterConfig,
+  NewsletterDefinition,
+  SelectionConfig
+} from './types.js';
+import { DEFAULT_FETCH_CONFIG } from './feedFetcher.js';
+import { DEFAULT_HEALTH_CONFIG } from './feedHealth.js';
+import { DEFAULT_CANONICALIZATION_CONFIG } from './urlCanonicalizer.js';
+import { DEFAULT_CLUSTERING_CONFIG } from './storyClusterer.js';
+import { DEFAULT_SELECTION_CONFIG } from './itemSelector.js';
+import { DEFAULT_SCORING_CONFIG } from './itemScorer.js';
+import { DEFAULT_EMAIL_SUBJECT } from './emailRenderer.js';
+import { DEFAULT_SMTP_CONFIG } from './smtpClient.js';
+import { DEFAULT_ROLLUP_CONFIG } from './rollup.js';
+import { MESSAGE_LANGUAGES, hasMessages } from './messages.js';
+
+export const DEFAULT_NEWSLETTER_CONFIG = {
+  description: '',
+  author: 'Newsletter Bot',
+  maxItemsPerFeed: 10,
+  maxTotalItems: 50,
+  retentionDays: 30,
+  locale: 'en-US',
+  timeZone: 'UTC',
+  feedItemEntries: false,
+  feedMaxEntries: 30
+};
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+export interface ConfigIssue {
+  severity: ConfigIssueSeverity;
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface ConfigValidationResult {
+  config: Config | null;
+  issues: ConfigIssue[];
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    const errors = issues.filter(i => i.severity === 'error');
+    super(`Invalid configuration in ${source} (${errors.length} error${errors.length === 1 ? '' : 's'}):\n${formatIssues(errors)}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues
+    .map(issue => {
+      const line = `  ${issue.severity === 'error' ? '✗' : '!'} ${issue.path}: ${issue.message}`;
+      return issue.suggestion ? `${line}\n      → ${issue.suggestion}` : line;
+    })
+    .join('\n');
+}
+
+const ROOT_KEYS = ['newsletter', 'newsletters', 'email', 'fetch', 'health', 'canonicalization', 'clustering', 'scoring', 'selection', 'filters', 'feeds', 'categories'];
+const NEWSLETTER_KEYS = ['title', 'siteUrl', 'theme', 'editions', ...Object.keys(DEFAULT_NEWSLETTER_CONFIG)];
+const EDITION_KEYS = ['daily', 'weekly', 'monthly'];
+const DAILY_EDITION_KEYS = ['email'];
+const NEWSLETTER_DEFINITION_KEYS = ['id', 'newsletter', 'feeds', 'categories', 'output', 'dedupNamespace', 'email'];
+const FEED_KEYS = ['name', 'url', 'category', 'enabled', 'type', 'weight', 'filters', 'request'];
+const FEED_TYPES: FeedSourceType[] = ['rss', 'json', 'markdown'];
+const REQUEST_KEYS = ['headers', 'headersFromEnv', 'auth', 'userAgent', 'timeout', 'proxy'];
+const AUTH_KEYS: Record<string, string[]> = {
+  basic: ['type', 'userEnv', 'passwordEnv'],
+  bearer: ['type', 'tokenEnv']
+};
+const AUTH_EXAMPLES: Record<string, string> = { userEnv: 'FEED_USER', passwordEnv: 'FEED_PASSWORD', tokenEnv: 'FEED_TOKEN' };
+// Header names are HTTP tokens
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Headers that carry credentials, which belong in the environment
+const SECRET_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization', 'x-api-key']);
+const SELECTION_STRATEGIES = ['round-robin', 'weighted', 'ranked'];
+const QUOTA_KEYS = ['min', 'max'];
+const EMAIL_KEYS = ['from', 'subscribers', 'subject', 'replyTo', 'smtp'];
+const SMTP_KEYS = ['host', ...Object.keys(DEFAULT_SMTP_CONFIG)];
+const MATCH_RULE_KEYS = ['name', 'type', 'value', 'fields', 'caseSensitive'];
+const FILTER_KEYS = [...MATCH_RULE_KEYS, 'action'];
+const SCORING_RULE_KEYS = [...MATCH_RULE_KEYS, 'points'];
+const FILTER_ACTIONS = ['include', 'exclude'];
+const FILTER_TYPES = ['keyword', 'regex', 'author', 'domain'];
+const FILTER_FIELDS = ['title', 'description', 'content'];
+
+// Settings expressed as a ratio rather than a count
+const RATIO_SETTINGS = new Set(['degradedBelow', 'threshold']);
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Checks a parsed feeds.config.json and fills in documented defaults.
+ * Every problem is collected with its JSON path instead of stopping at the
+ * first one, so a single run shows everything that needs fixing.
+ */
+export class ConfigValidator {
+  private issues: ConfigIssue[] = [];
+
+  validate(raw: unknown): ConfigValidationResult {
+    this.issues = [];
+
+    if (!this.isObject(raw)) {
+      this.error('$', 'The configuration must be a JSON object');
+      return { config: null, issues: this.issues };
+    }
+
+    this.checkUnknownKeys(raw, ROOT_KEYS, '$');
+
+    const newsletter = this.validateNewsletter(raw.newsletter);
+    const categories = this.validateCategories(raw.categories);
+    const feeds = this.validateFeeds(raw.feeds, categories);
+    const filters = raw.filters === undefined ? undefined : this.validateFilters(raw.filters, '$.filters');
+    const email = raw.email === undefined ? undefined : this.validateEmail(raw.email);
+
+    this.validateSettingsBlock(raw, 'fetch', DEFAULT_FETCH_CONFIG);
+    this.validateSettingsBlock(raw, 'health', DEFAULT_HEALTH_CONFIG);
+    this.validateSettingsBlock(raw, 'canonicalization', DEFAULT_CANONICALIZATION_CONFIG);
+    this.validateSettingsBlock(raw, 'clustering', DEFAULT_CLUSTERING_CONFIG);
+    this.validateScoring(raw);
+
+    // Without an explicit list, categories follow the order feeds use them in
+    const resolvedCategories = categories ?? Array.from(new Set(feeds.map(f => f.category)));
+    const selection = raw.selection === undefined
+      ? undefined
+      : this.validateSelection(raw.selection, resolvedCategories, newsletter?.maxTotalItems);
+    const newsletters = raw.newsletters === undefined || !newsletter
+      ? undefined
+      : this.validateNewsletters(raw.newsletters, newsletter, feeds, resolvedCategories);
+
+    if (this.issues.some(i => i.severity === 'error')) {
+      return { config: null, issues: this.issues };
+    }
+
+    const config: Config = {
+      ...(raw as Partial<Config>),
+      newsletter: newsletter!,
+      feeds,
+      categories: resolvedCategories
+    };
+    if (filters) {
+      config.filters = filters;
+    }
+    if (email) {
+      config.email = email;
+    }
+    if (selection) {
+      config.selection = selection;
+    }
+    if (newsletters) {
+      config.newsletters = newsletters;
+    }
+
+    return { config, issues: this.issues };
+  }
+
+  private error(path: string, message: string, suggestion?: string): void {
+    this.issues.push({ severity: 'error', path, message, suggestion });
+  }
+
+  private warning(path: string, message: string, suggestion?: string): void {
+    this.issues.push({ severity: 'warning', path, message, suggestion });
+  }
+
+  private isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return `a ${typeof value}`;
+  }
+
+  private distance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = previous[0];
+      previous[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = previous[j];
+        previous[j] = Math.min(
+          previous[j] + 1,
+          previous[j - 1] + 1,
+          diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+        );
+        diagonal = current;
+      }
+    }
+    return previous[b.length];
+  }
+
+  private closest(value: string, candidates: string[]): string | null {
+    let best: string | null = null;
+    let bestDistance = Math.max(2, Math.floor(value.length / 3));
+
+    for (const candidate of candidates) {
+      const d = this.distance(value, candidate);
+      if (d <= bestDistance) {
+        best = candidate;
+        bestDistance = d;
+      }
+    }
+
+    return best;
+  }
+
+  private checkUnknownKeys(obj: JsonObject, known: string[], path: string): void {
+    for (const key of Object.keys(obj)) {
+      if (known.includes(key)) continue;
+
+      const match = this.closest(key, known);
+      this.error(
+        `${path}.${key}`,
+        `Unknown setting "${key}"`,
+        match ? `Did you mean "${match}"?` : `Remove it; allowed settings are ${known.join(', ')}`
+      );
+    }
+  }
+
+  private requireString(obj: JsonObject, key: string, path: string, example: string): string | null {
+    const value = obj[key];
+
+    if (value === undefined) {
+      this.error(`${path}.${key}`, `Missing required setting "${key}"`, `Add "${key}": ${JSON.stringify(example)}`);
+      return null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.error(`${path}.${key}`, `Expected a non-empty string, got ${this.describeType(value)}`);
+      return null;
+    }
+
+    return value;
+  }
+
+  private optionalString(obj: JsonObject, key: string, path: string, fallback: string): string {
+    const value = obj[key];
+
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string') {
+      this.error(`${path}.${key}`, `Expected a string, got ${this.describeType(value)}`);
+      return fallback;
+    }
+
+    return value;
+  }
+
+  private optionalPositiveInteger(obj: JsonObject, key: string, path: string, fallback: number): number {
+    const value = obj[key];
+
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      this.error(
+        `${path}.${key}`,
+        `Expected a positive whole number, got ${JSON.stringify(value)}`,
+        `Use a value such as ${fallback}, or remove the setting to use the default (${fallback})`
+      );
+      return fallback;
+    }
+
+    return value;
+  }
+
+  private optionalBoolean(obj: JsonObject, key: string, path: string, fallback: boolean): boolean {
+    const value = obj[key];
+
+    if (value === undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      this.error(`${path}.${key}`, `Expected true or false, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+
+    return value;
+  }
+
+  private optionalSiteUrl(obj: JsonObject, path: string): string | undefined {
+    const value = obj.siteUrl;
+
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !/^https?:\/\//.test(value)) {
+      this.error(
+        `${path}.siteUrl`,
+        `Expected an absolute http(s) URL, got ${JSON.stringify(value)}`,
+        'Use the public address of the site, e.g. "https://user.github.io/repo/"'
+      );
+      return undefined;
+    }
+
+    return value;
+  }
+
+  private optionalLocale(obj: JsonObject, path: string, fallback: string): string {
+    const value = this.optionalString(obj, 'locale', path, fallback);
+
+    let locale: string;
+    try {
+      locale = Intl.getCanonicalLocales(value)[0];
+    } catch {
+      this.error(`${path}.locale`, `"${value}" is not a language tag`, 'Use a tag such as "en-US" or "de-DE"');
+      return fallback;
+    }
+
+    if (!hasMessages(locale)) {
+      this.warning(
+        `${path}.locale`,
+        `There are no bundled messages for "${locale}"; dates follow it, but the pages are in English`,
+        `Bundled languages: ${MESSAGE_LANGUAGES.join(', ')}`
+      );
+    }
+    return locale;
+  }
+
+  private optionalTimeZone(obj: JsonObject, path: string, fallback: string): string {
+    const value = this.optionalString(obj, 'timeZone', path, fallback);
+
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+    } catch {
+      this.error(`${path}.timeZone`, `Unknown time zone "${value}"`, 'Use an IANA name such as "UTC" or "Europe/Berlin"');
+      return fallback;
+    }
+  }
+
+  /**
+   * With `base`, the block overrides another newsletter's settings, so
+   * nothing in it is required.
+   */
+  private validateNewsletter(
+    value: unknown,
+    path: string = '$.newsletter',
+    base?: NewsletterConfig
+  ): NewsletterConfig | null {
+    if (value === undefined) {
+      if (base) return { ...base, siteUrl: undefined };
+      this.error(path, 'Missing required section "newsletter"', 'Add "newsletter": { "title": "My Daily Digest" }');
+      return null;
+    }
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`);
+      return null;
+    }
+
+    this.checkUnknownKeys(value, NEWSLETTER_KEYS, path);
+
+    const title = base && value.title === undefined
+      ? base.title
+      : this.requireString(value, 'title', path, 'My Daily Digest');
+    const defaults = base || DEFAULT_NEWSLETTER_CONFIG;
+    const theme = value.theme === undefined
+      ? base?.theme
+      : this.requireString(value, 'theme', path, 'themes/my-theme') || undefined;
+
+    return {
+      ...(base || {}),
+      ...(value as object),
+      title: title || '',
+      description: this.optionalString(value, 'description', path, defaults.description),
+      author: this.optionalString(value, 'author', path, defaults.author),
+      maxItemsPerFeed: this.optionalPositiveInteger(value, 'maxItemsPerFeed', path, defaults.maxItemsPerFeed),
+      maxTotalItems: this.optionalPositiveInteger(value, 'maxTotalItems', path, defaults.maxTotalItems),
+      retentionDays: this.optionalPositiveInteger(value, 'retentionDays', path, defaults.retentionDays),
+      siteUrl: this.optionalSiteUrl(value, path),
+      theme,
+      locale: this.optionalLocale(value, path, defaults.locale),
+      timeZone: this.optionalTimeZone(value, path, defaults.timeZone),
+      feedItemEntries: this.optionalBoolean(value, 'feedItemEntries', path, defaults.feedItemEntries),
+      feedMaxEntries: this.optionalPositiveInteger(value, 'feedMaxEntries', path, defaults.feedMaxEntries),
+      editions: value.editions === undefined
+        ? base?.editions || { daily: { email: true } }
+        : this.validateEditions(value.editions, `${path}.editions`)
+    };
+  }
+
+  /** A newsletter's "editions" replaces the one it would inherit as a whole. */
+  private validateEditions(value: unknown, path: string): EditionsConfig {
+    const editions: EditionsConfig = { daily: { email: true } };
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`, 'For example { "weekly": { "maxItems": 20 } }');
+      return editions;
+    }
+
+    this.checkUnknownKeys(value, EDITION_KEYS, path);
+
+    if (value.daily !== undefined) {
+      if (this.isObject(value.daily)) {
+        this.checkUnknownKeys(value.daily, DAILY_EDITION_KEYS, `${path}.daily`);
+        editions.daily.email = this.optionalBoolean(value.daily, 'email', `${path}.daily`, true);
+      } else {
+        this.error(`${path}.daily`, `Expected an object, got ${this.describeType(value.daily)}`);
+      }
+    }
+
+    for (const cadence of ['weekly', 'monthly'] as const) {
+      const rollup = value[cadence];
+      if (rollup === undefined) continue;
+      if (!this.isObject(rollup)) {
+        this.error(`${path}.${cadence}`, `Expected an object, got ${this.describeType(rollup)}`, `Use {} for a ${cadence} roll-up with the default settings`);
+        continue;
+      }
+
+      this.checkUnknownKeys(rollup, Object.keys(DEFAULT_ROLLUP_CONFIG), `${path}.${cadence}`);
+      editions[cadence] = {
+        maxItems: this.optionalPositiveInteger(rollup, 'maxItems', `${path}.${cadence}`, DEFAULT_ROLLUP_CONFIG.maxItems),
+        email: this.optionalBoolean(rollup, 'email', `${path}.${cadence}`, DEFAULT_ROLLUP_CONFIG.email)
+      };
+    }
+
+    return editions;
+  }
+
+  private validateNewsletters(
+    value: unknown,
+    root: NewsletterConfig,
+    feeds: Config['feeds'],
+    categories: string[]
+  ): NewsletterDefinition[] | undefined {
+    if (!Array.isArray(value)) {
+      this.error('$.newsletters', `Expected an array of newsletters, got ${this.describeType(value)}`);
+      return undefined;
+    }
+    if (value.length === 0) {
+      this.error('$.newsletters', 'Expected at least one newsletter', 'Remove "newsletters" to publish only the "newsletter" section');
+      return undefined;
+    }
+
+    const feedNames = feeds.map(f => f.name);
+    const ids = new Map<string, number>();
+    const outputs = new Map<string, number>();
+    const definitions: NewsletterDefinition[] = [];
+
+    value.forEach((definition, index) => {
+      const path = `$.newsletters[${index}]`;
+      if (!this.isObject(definition)) {
+        this.error(path, `Expected a newsletter object, got ${this.describeType(definition)}`);
+        return;
+      }
+
+      this.checkUnknownKeys(definition, NEWSLETTER_DEFINITION_KEYS, path);
+
+      // The id names a directory and is stored with every edition, so keep it plain
+      const id = this.requireString(definition, 'id', path, 'dev-digest');
+      if (id !== null) {
+        if (!/^[a-z0-9][a-z0-9_-]*$/i.test(id)) {
+          this.error(`${path}.id`, `"${id}" may only contain letters, digits, "-" and "_"`);
+        } else if (ids.has(id)) {
+          this.error(`${path}.id`, `Duplicate newsletter id "${id}" (also used by $.newsletters[${ids.get(id)}])`);
+        } else {
+          ids.set(id, index);
+        }
+      }
+
+      // Without an id there is no default directory; the missing id is reported already
+      const output = this.optionalString(definition, 'output', path, id || '').replace(/\/+$/, '');
+      if (id !== null || definition.output !== undefined) {
+        if (output === '' || output.startsWith('/') || output.split('/').some(part => part === '..' || part === '.')) {
+          this.error(`${path}.output`, `Expected a subdirectory of the output directory, got ${JSON.stringify(output)}`, `Use a plain name such as "${id || 'dev-digest'}"`);
+        } else if (outputs.has(output)) {
+          this.error(`${path}.output`, `Same output directory as $.newsletters[${outputs.get(output)}]`, 'Every newsletter needs its own directory');
+        } else {
+          outputs.set(output, index);
+        }
+      }
+
+      const selectedFeeds = this.validateNameList(definition, 'feeds', path, feedNames, 'feed');
+      const selectedCategories = this.validateNameList(definition, 'categories', path, categories, 'category');
+      const used = feeds.filter(feed =>
+        feed.enabled &&
+        (!selectedFeeds && !selectedCategories ||
+          selectedFeeds?.includes(feed.name) ||
+          selectedCategories?.includes(feed.category))
+      );
+      if (used.length === 0) {
+        this.warning(path, 'No enabled feed is selected; the newsletter will always be empty', 'Check its "feeds" and "categories"');
+      }
+
+      const newsletter = this.validateNewsletter(definition.newsletter, `${path}.newsletter`, root);
+      const email = definition.email === undefined ? undefined : this.validateEmail(definition.email, `${path}.email`);
+      if (!newsletter || id === null) return;
+
+      // Without its own siteUrl, a newsletter is published under the main one
+      if (!newsletter.siteUrl && root.siteUrl) {
+        newsletter.siteUrl = new URL(`${output}/`, root.siteUrl.endsWith('/') ? root.siteUrl : `${root.siteUrl}/`).href;
+      }
+
+      definitions.push({
+        id,
+        newsletter,
+        ...(selectedFeeds ? { feeds: selectedFeeds } : {}),
+        ...(selectedCategories ? { categories: selectedCategories } : {}),
+        output,
+        dedupNamespace: this.optionalString(definition, 'dedupNamespace', path, id) || id,
+        ...(email ? { email } : {})
+      });
+    });
+
+    return definitions;
+  }
+
+  /** A list of names that must each be one of `known`. */
+  private validateNameList(obj: JsonObject, key: string, path: string, known: string[], kind: string): string[] | undefined {
+    const value = obj[key];
+    const listPath = `${path}.${key}`;
+
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+      this.error(listPath, `Expected an array of ${kind} names, got ${this.describeType(value)}`);
+      return undefined;
+    }
+
+    const names: string[] = [];
+    value.forEach((name, index) => {
+      const namePath = `${listPath}[${index}]`;
+      if (typeof name !== 'string' || name === '') {
+        this.error(namePath, `Expected a ${kind} name, got ${this.describeType(name)}`);
+      } else if (!known.includes(name)) {
+        const match = this.closest(name, known);
+        this.error(namePath, `Unknown ${kind} "${name}"`, match ? `Did you mean "${match}"?` : `Use one of: ${known.join(', ')}`);
+      } else if (!names.includes(name)) {
+        names.push(name);
+      }
+    });
+
+    return names;
+  }
+
+  private isEmailAddress(value: string): boolean {
+    const match = value.match(/<([^>]+)>\s*$/);
+    return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(match ? match[1] : value.trim());
+  }
+
+  private validateEmail(value: unknown, path: string = '$.email'): EmailConfig | undefined {
+
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`);
+      return undefined;
+    }
+
+    this.checkUnknownKeys(value, EMAIL_KEYS, path);
+
+    const from = this.requireString(value, 'from', path, 'Daily Digest <digest@example.com>');
+    if (from !== null && !this.isEmailAddress(from)) {
+      this.error(`${path}.from`, `"${from}" is not an email address`, 'Use "name@example.com" or "Name <name@example.com>"');
+    }
+
+    const replyTo = value.replyTo === undefined ? undefined : this.requireString(value, 'replyTo', path, 'editor@example.com');
+    if (replyTo && !this.isEmailAddress(replyTo)) {
+      this.error(`${path}.replyTo`, `"${replyTo}" is not an email address`);
+    }
+
+    const subscribers: string[] = [];
+    if (value.subscribers === undefined) {
+      this.error(`${path}.subscribers`, 'Missing required setting "subscribers"', 'Add "subscribers": ["reader@example.com"]');
+    } else if (!Array.isArray(value.subscribers)) {
+      this.error(`${path}.subscribers`, `Expected an array of email addresses, got ${this.describeType(value.subscribers)}`);
+    } else {
+      const seen = new Set<string>();
+      value.subscribers.forEach((subscriber, index) => {
+        const subscriberPath = `${path}.subscribers[${index}]`;
+        if (typeof subscriber !== 'string' || !this.isEmailAddress(subscriber)) {
+          this.error(subscriberPath, `Expected an email address, got ${JSON.stringify(subscriber)}`);
+        } else if (seen.has(subscriber.toLowerCase())) {
+          this.warning(subscriberPath, `Duplicate subscriber "${subscriber}"`, 'Remove the repeated entry');
+        } else {
+          seen.add(subscriber.toLowerCase());
+          subscribers.push(subscriber);
+        }
+      });
+      if (value.subscribers.length === 0) {
+        this.warning(`${path}.subscribers`, 'No subscribers; the email edition will be written but not sent');
+      }
+    }
+
+    const smtpPath = `${path}.smtp`;
+    const smtp = value.smtp;
+    if (smtp === undefined) {
+      this.error(smtpPath, 'Missing required section "smtp"', 'Add "smtp": { "host": "smtp.example.com" }');
+      return undefined;
+    }
+    if (!this.isObject(smtp)) {
+      this.error(smtpPath, `Expected an object, got ${this.describeType(smtp)}`);
+      return undefined;
+    }
+
+    this.checkUnknownKeys(smtp, SMTP_KEYS, smtpPath);
+    const host = this.requireString(smtp, 'host', smtpPath, 'smtp.example.com');
+    const defaults = DEFAULT_SMTP_CONFIG;
+    const secure = this.optionalBoolean(smtp, 'secure', smtpPath, defaults.secure);
+
+    return {
+      from: from || '',
+      subscribers,
+      subject: this.optionalString(value, 'subject', path, DEFAULT_EMAIL_SUBJECT),
+      ...(replyTo ? { replyTo } : {}),
+      smtp: {
+        host: host || '',
+        // Implicit TLS is almost always on 465, STARTTLS on 587
+        port: this.optionalPositiveInteger(smtp, 'port', smtpPath, secure ? 465 : defaults.port),
+        secure,
+        startTls: this.optionalBoolean(smtp, 'startTls', smtpPath, defaults.startTls),
+        userEnv: this.optionalString(smtp, 'userEnv', smtpPath, defaults.userEnv),
+        passwordEnv: this.optionalString(smtp, 'passwordEnv', smtpPath, defaults.passwordEnv),
+        timeout: this.optionalPositiveInteger(smtp, 'timeout', smtpPath, defaults.timeout)
+      }
+    };
+  }
+
+  private validateCategories(value: unknown): string[] | null {
+    if (value === undefined) return null;
+
+    if (!Array.isArray(value)) {
+      this.error('$.categories', `Expected an array of category names, got ${this.describeType(value)}`);
+      return null;
+    }
+
+    const seen = new Set<string>();
+    value.forEach((category, index) => {
+      const path = `$.categories[${index}]`;
+      if (typeof category !== 'string' || category.trim() === '') {
+        this.error(path, `Expected a non-empty string, got ${this.describeType(category)}`);
+      } else if (seen.has(category)) {
+        this.error(path, `Duplicate category "${category}"`, 'Remove the repeated entry');
+      } else {
+        seen.add(category);
+      }
+    });
+
+    return Array.from(seen);
+  }
+
+  private validateFeeds(value: unknown, categories: string[] | null): Config['feeds'] {
+    if (value === undefined) {
+      this.error('$.feeds', 'Missing required section "feeds"', 'Add "feeds": [] and list your RSS feeds in it');
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.error('$.feeds', `Expected an array of feeds, got ${this.describeType(value)}`);
+      return [];
+    }
+
+    const names = new Map<string, number>();
+    const urls = new Map<string, number>();
+    const feeds: Config['feeds'] = [];
+
+    value.forEach((feed, index) => {
+      const path = `$.feeds[${index}]`;
+
+      if (!this.isObject(feed)) {
+        this.error(path, `Expected a feed object, got ${this.describeType(feed)}`);
+        return;
+      }
+
+      this.checkUnknownKeys(feed, FEED_KEYS, path);
+
+      const name = this.requireString(feed, 'name', path, 'My Feed');
+      const url = this.requireString(feed, 'url', path, 'https://example.com/feed.xml');
+      const category = this.requireString(feed, 'category', path, categories?.[0] || 'Uncategorized');
+
+      if (name !== null) {
+        if (names.has(name)) {
+          this.error(`${path}.name`, `Duplicate feed name "${name}" (also used by $.feeds[${names.get(name)}])`, 'Feed names must be unique; rename one of them');
+        } else {
+          names.set(name, index);
+        }
+      }
+
+      if (feed.type !== undefined) {
+        this.checkEnum(feed.type, FEED_TYPES, `${path}.type`);
+      }
+
+      if (url !== null) {
+        this.validateFeedUrl(url, `${path}.url`, feed.type === 'markdown');
+        if (urls.has(url)) {
+          this.warning(`${path}.url`, `Same URL as $.feeds[${urls.get(url)}]`, 'Remove one of the duplicate feeds');
+        } else {
+          urls.set(url, index);
+        }
+      }
+
+      if (category !== null && categories && !categories.includes(category)) {
+        const match = this.closest(category, categories);
+        this.error(
+          `${path}.category`,
+          `Category "${category}" is not listed in "categories"`,
+          match ? `Did you mean "${match}"? Otherwise add "${category}" to $.categories` : `Add "${category}" to $.categories`
+        );
+      }
+
+      let enabled = true;
+      if (feed.enabled !== undefined) {
+        if (typeof feed.enabled !== 'boolean') {
+          this.error(`${path}.enabled`, `Expected true or false, got ${JSON.stringify(feed.enabled)}`);
+        } else {
+          enabled = feed.enabled;
+        }
+      }
+
+      if (feed.weight !== undefined && (typeof feed.weight !== 'number' || !Number.isFinite(feed.weight) || feed.weight <= 0)) {
+        this.error(`${path}.weight`, `Expected a positive number, got ${JSON.stringify(feed.weight)}`, 'Use 1 for a normal share, 2 for twice as many turns, 0.5 for half');
+      }
+
+      const filters = feed.filters === undefined ? undefined : this.validateFilters(feed.filters, `${path}.filters`);
+
+      if (feed.request !== undefined) {
+        this.validateFeedRequest(feed.request, `${path}.request`, url?.startsWith('file:') ?? false);
+      }
+
+      feeds.push({
+        ...(feed as object),
+        name: name || '',
+        url: url || '',
+        category: category || '',
+        enabled,
+        ...(filters ? { filters } : {})
+      });
+    });
+
+    return feeds;
+  }
+
+  /** A Markdown directory can only be local; the other types can be either. */
+  private validateFeedUrl(url: string, path: string, directory: boolean): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      this.error(path, `"${url}" is not a valid URL`, 'Use an absolute URL such as https://example.com/feed.xml');
+      return;
+    }
+
+    if (parsed.username || parsed.password) {
+      this.error(path, 'The URL contains credentials, which are not sent and would show up in logs', 'Remove them and set "request": { "auth": ... } with the names of environment variables');
+    }
+
+    if (directory) {
+      if (parsed.protocol !== 'file:') {
+        this.error(path, 'A "markdown" feed reads a local directory', 'Use a file: URL such as file:changelog/ (relative to the config file)');
+      }
+    } else if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:' && parsed.protocol !== 'file:') {
+      this.error(path, `Unsupported URL scheme "${parsed.protocol}"`, 'Use an http://, https:// or file: URL');
+    }
+  }
+
+  /**
+   * Credentials are only ever named by environment variable, so the
+   * configuration can be committed; literal ones in headers get a warning.
+   */
+  private validateFeedRequest(value: unknown, path: string, local: boolean): void {
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`);
+      return;
+    }
+    this.checkUnknownKeys(value, REQUEST_KEYS, path);
+    if (local) {
+      this.warning(path, 'Request settings are ignored for a local file: source', 'Remove "request"');
+    }
+
+    for (const key of ['headers', 'headersFromEnv']) {
+      const headers = value[key];
+      if (headers === undefined) continue;
+      if (!this.isObject(headers)) {
+        this.error(`${path}.${key}`, `Expected an object of header names and values, got ${this.describeType(headers)}`);
+        continue;
+      }
+
+      for (const [name, headerValue] of Object.entries(headers)) {
+        const headerPath = `${path}.${key}.${name}`;
+        if (!HEADER_NAME.test(name)) {
+          this.error(headerPath, `"${name}" is not a valid header name`);
+        }
+        if (typeof headerValue !== 'string' || (key === 'headersFromEnv' && headerValue.trim() === '')) {
+          const got = typeof headerValue === 'string' ? 'an empty string' : this.describeType(headerValue);
+          this.error(headerPath, `Expected ${key === 'headers' ? 'a string' : 'the name of an environment variable'}, got ${got}`);
+        } else if (key === 'headers' && SECRET_HEADERS.has(name.toLowerCase())) {
+          this.warning(headerPath, `A literal ${name} header puts a credential in the configuration`, `Move it to "headersFromEnv": { "${name}": "MY_ENV_VARIABLE" } or use "auth"`);
+        }
+      }
+    }
+
+    const auth = value.auth;
+    if (auth !== undefined) {
+      const authPath = `${path}.auth`;
+      if (!this.isObject(auth)) {
+        this.error(authPath, `Expected an object, got ${this.describeType(auth)}`);
+      } else {
+        this.checkEnum(auth.type, Object.keys(AUTH_KEYS), `${authPath}.type`);
+        const keys = typeof auth.type === 'string' ? AUTH_KEYS[auth.type] : undefined;
+        if (keys) {
+          this.checkUnknownKeys(auth, keys, authPath);
+          for (const key of keys.filter(k => k !== 'type')) {
+            this.requireString(auth, key, authPath, AUTH_EXAMPLES[key]);
+          }
+        }
+      }
+    }
+
+    if (value.userAgent !== undefined && (typeof value.userAgent !== 'string' || value.userAgent.trim() === '')) {
+      this.error(`${path}.userAgent`, `Expected a non-empty string, got ${this.describeType(value.userAgent)}`);
+    }
+    this.optionalPositiveInteger(value, 'timeout', path, DEFAULT_FETCH_CONFIG.timeout);
+
+    if (value.proxy !== undefined) {
+      const proxyPath = `${path}.proxy`;
+      let proxy: URL | null = null;
+      try {
+        proxy = typeof value.proxy === 'string' ? new URL(value.proxy) : null;
+      } catch {
+        // Reported below
+      }
+      if (!proxy) {
+        this.error(proxyPath, `Expected a proxy URL, got ${JSON.stringify(value.proxy)}`, 'Use an http:// URL such as http://proxy.internal:3128');
+      } else if (proxy.protocol !== 'http:') {
+        this.error(proxyPath, `Unsupported proxy scheme "${proxy.protocol}"`, 'Use an http:// proxy; https feeds are still tunneled end to end');
+      } else if (proxy.username || proxy.password) {
+        this.error(proxyPath, 'Proxies that require a login are not supported', 'Remove the credentials from the proxy URL');
+      }
+    }
+  }
+
+  private validateFilters(value: unknown, path: string): FilterRule[] | undefined {
+    return this.validateMatchRules(value, path, 'filter', FILTER_KEYS, (rule, rulePath) => {
+      this.checkEnum(rule.action, FILTER_ACTIONS, `${rulePath}.action`);
+    }) as FilterRule[] | undefined;
+  }
+
+  /**
+   * Filter and scoring rules share how they match (type, value, fields,
+   * caseSensitive); `checkRule` checks what each kind adds.
+   */
+  private validateMatchRules(
+    value: unknown,
+    path: string,
+    kind: string,
+    keys: string[],
+    checkRule: (rule: JsonObject, rulePath: string) => void
+  ): unknown[] | undefined {
+    if (!Array.isArray(value)) {
+      this.error(path, `Expected an array of ${kind} rules, got ${this.describeType(value)}`);
+      return undefined;
+    }
+
+    value.forEach((rule, index) => {
+      const rulePath = `${path}[${index}]`;
+
+      if (!this.isObject(rule)) {
+        this.error(rulePath, `Expected a ${kind} rule object, got ${this.describeType(rule)}`);
+        return;
+      }
+
+      this.checkUnknownKeys(rule, keys, rulePath);
+      checkRule(rule, rulePath);
+      this.checkEnum(rule.type, FILTER_TYPES, `${rulePath}.type`);
+
+      const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+      if (rule.value === undefined) {
+        this.error(`${rulePath}.value`, 'Missing required setting "value"', 'Add "value": "keyword" or a list of values');
+      } else if (values.length === 0 || values.some(v => typeof v !== 'string' || v === '')) {
+        this.error(`${rulePath}.value`, 'Expected a non-empty string or a list of non-empty strings');
+      } else if (rule.type === 'regex') {
+        values.forEach(pattern => {
+          try {
+            new RegExp(pattern as string);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.error(`${rulePath}.value`, message, 'Backslashes must be doubled inside JSON strings');
+          }
+        });
+      }
+
+      if (rule.fields !== undefined) {
+        if (!Array.isArray(rule.fields)) {
+          this.error(`${rulePath}.fields`, `Expected an array, got ${this.describeType(rule.fields)}`);
+        } else {
+          rule.fields.forEach((field, fieldIndex) => this.checkEnum(field, FILTER_FIELDS, `${rulePath}.fields[${fieldIndex}]`));
+        }
+      }
+
+      if (rule.caseSensitive !== undefined && typeof rule.caseSensitive !== 'boolean') {
+        this.error(`${rulePath}.caseSensitive`, `Expected true or false, got ${JSON.stringify(rule.caseSensitive)}`);
+      }
+    });
+
+    return value;
+  }
+
+  private validateScoring(root: JsonObject): void {
+    const value = root.scoring;
+    const path = '$.scoring';
+
+    this.validateSettingsBlock(root, 'scoring', DEFAULT_SCORING_CONFIG, ['rules']);
+    if (!this.isObject(value)) return;
+
+    // Scores are divided by these, so 0 is not a valid "off" value
+    for (const key of ['recencyHalfLifeHours', 'descriptionLength']) {
+      if (value[key] === 0) {
+        this.error(`${path}.${key}`, 'Must be greater than 0', 'Set the matching weight to 0 to turn the signal off');
+      }
+    }
+
+    if (value.rules !== undefined) {
+      this.validateMatchRules(value.rules, `${path}.rules`, 'scoring', SCORING_RULE_KEYS, (rule, rulePath) => {
+        if (rule.points === undefined) {
+          this.error(`${rulePath}.points`, 'Missing required setting "points"', 'Add "points": 1 to boost matching items, or a negative number to demote them');
+        } else if (typeof rule.points !== 'number' || !Number.isFinite(rule.points)) {
+          this.error(`${rulePath}.points`, `Expected a number, got ${JSON.stringify(rule.points)}`);
+        }
+      });
+    }
+  }
+
+  private validateSelection(value: unknown, categories: string[], maxTotalItems: number | undefined): Partial<SelectionConfig> | undefined {
+    const path = '$.selection';
+
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`);
+      return undefined;
+    }
+
+    this.checkUnknownKeys(value, Object.keys(DEFAULT_SELECTION_CONFIG), path);
+
+    if (value.strategy !== undefined) {
+      this.checkEnum(value.strategy, SELECTION_STRATEGIES, `${path}.strategy`);
+    }
+
+    const share = value.maxFeedShare;
+    if (share !== undefined && (typeof share !== 'number' || !(share > 0 && share <= 1))) {
+      this.error(
+        `${path}.maxFeedShare`,
+        `Expected a ratio above 0 and at most 1, got ${JSON.stringify(share)}`,
+        'For example 0.3 lets one feed fill at most 30% of maxTotalItems'
+      );
+    }
+
+    if (value.categories === undefined) {
+      return value as Partial<SelectionConfig>;
+    }
+    if (!this.isObject(value.categories)) {
+      this.error(`${path}.categories`, `Expected an object keyed by category name, got ${this.describeType(value.categories)}`);
+      return undefined;
+    }
+
+    let totalMin = 0;
+    for (const [category, quota] of Object.entries(value.categories)) {
+      const quotaPath = `${path}.categories.${category}`;
+
+      if (!categories.includes(category)) {
+        const match = this.closest(category, categories);
+        this.error(quotaPath, `Unknown category "${category}"`, match ? `Did you mean "${match}"?` : `Use one of: ${categories.join(', ')}`);
+      }
+      if (!this.isObject(quota)) {
+        this.error(quotaPath, `Expected { "min": n, "max": n }, got ${this.describeType(quota)}`);
+        continue;
+      }
+
+      this.checkUnknownKeys(quota, QUOTA_KEYS, quotaPath);
+      for (const key of QUOTA_KEYS) {
+        const limit = quota[key];
+        if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0)) {
+          this.error(`${quotaPath}.${key}`, `Expected a whole number of items, got ${JSON.stringify(limit)}`);
+        }
+      }
+
+      if (typeof quota.min === 'number' && typeof quota.max === 'number' && quota.min > quota.max) {
+        this.error(quotaPath, `"min" (${quota.min}) is larger than "max" (${quota.max})`);
+      }
+      if (typeof quota.min === 'number') {
+        totalMin += quota.min;
+      }
+    }
+
+    if (maxTotalItems !== undefined && totalMin > maxTotalItems) {
+      this.warning(
+        `${path}.categories`,
+        `The category minimums add up to ${totalMin}, more than maxTotalItems (${maxTotalItems})`,
+        'Categories listed first get their minimum first; lower the minimums or raise maxTotalItems'
+      );
+    }
+
+    return value as Partial<SelectionConfig>;
+  }
+
+  private checkEnum(value: unknown, allowed: string[], path: string): void {
+    if (value === undefined) {
+      this.error(path, 'Missing required setting', `Use one of: ${allowed.join(', ')}`);
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      const match = typeof value === 'string' ? this.closest(value, allowed) : null;
+      this.error(
+        path,
+        `Invalid value ${JSON.stringify(value)}`,
+        match ? `Did you mean "${match}"?` : `Use one of: ${allowed.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Optional settings blocks are checked against their module's defaults:
+   * the keys must exist there and the values must have the same type.
+   * Keys in `separate` are allowed but checked by the caller.
+   */
+  private validateSettingsBlock(root: JsonObject, key: string, defaults: object, separate: string[] = []): void {
+    const value = root[key];
+    const path = `$.${key}`;
+
+    if (value === undefined) return;
+    if (!this.isObject(value)) {
+      this.error(path, `Expected an object, got ${this.describeType(value)}`);
+      return;
+    }
+
+    const known = defaults as Record<string, unknown>;
+    this.checkUnknownKeys(value, Object.keys(known), path);
+
+    for (const [setting, settingValue] of Object.entries(value)) {
+      if (!(setting in known) || separate.includes(setting)) continue;
+
+      const expected = known[setting];
+      const settingPath = `${path}.${setting}`;
+      const fallback = JSON.stringify(expected);
+
+      if (Array.isArray(expected)) {
+        if (!Array.isArray(settingValue) || settingValue.some(v => typeof v !== 'string')) {
+          this.error(settingPath, 'Expected an array of strings', `Remove the setting to use the default list`);
+        }
+      } else if (typeof expected === 'number') {
+        if (typeof settingValue !== 'number' || !Number.isFinite(settingValue) || settingValue < 0) {
+          this.error(settingPath, `Expected a non-negative number, got ${JSON.stringify(settingValue)}`, `The default is ${fallback}`);
+        } else if (RATIO_SETTINGS.has(setting) && settingValue > 1) {
+          this.error(settingPath, `Expected a ratio between 0 and 1, got ${settingValue}`, `The default is ${fallback}`);
+        }
+      } else if (typeof settingValue !== typeof expected) {
+        this.error(settingPath, `Expected ${this.describeType(expected)}, got ${this.describeType(settingValue)}`, `The default is ${fallback}`);
+      }
+    }
+  }
+}
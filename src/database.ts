@@ -1,34 +1,157 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import { ProcessedItem } from './types.js';
+import {
+  EditionRecord,
+  EditionSummary,
+  FeedCacheEntry,
+  FeedCacheUpdate,
+  FeedItem,
+  FeedStatsRecord,
+  FetchErrorKind,
+  ProcessedItem,
+  RollupCadence,
+  RollupRecord,
+  RollupSummary,
+  ScoreBreakdown,
+  SearchDocument,
+  SearchResult,
+  StoredCluster,
+  StoredItemScore
+} from './types.js';
+import { DEFAULT_NEWSLETTER_ID, Newsletter } from './newsletters.js';
 
+// Rows as SQLite returns them, before they are mapped to records
+
+interface FeedStatsRow {
+  fetch_date: string;
+  success: number;
+  error_message: string | null;
+  error_kind: FetchErrorKind | null;
+}
+
+interface ItemScoreRow {
+  scored_at: string;
+  url: string;
+  feed_name: string;
+  title: string | null;
+  category: string | null;
+  breakdown: string;
+  selected: number;
+}
+
+interface EditionRow {
+  date: string;
+  generated_at: string;
+  total_feeds: number;
+  successful_feeds: number;
+  failed_feeds: number;
+  new_items: number;
+  duplicates_removed: number;
+  feed_results: string;
+  feed_health: string;
+}
+
+interface EditionItemRow {
+  id: number;
+  parent_id: number | null;
+  item_id: string;
+  title: string;
+  link: string;
+  description: string | null;
+  author: string | null;
+  category: string | null;
+  feed_name: string;
+  pub_date: string;
+  score: number | null;
+}
+
+interface RollupRow {
+  period: string;
+  generated_at: string;
+  edition_dates: string;
+  candidate_count: number;
+}
+
+interface SearchItemRow {
+  url: string;
+  link: string;
+  feed_name: string;
+  title: string;
+  description: string | null;
+  author: string | null;
+  category: string | null;
+  published_at: string;
+  edition_date: string;
+}
+
+/** The query names its columns after the fields. */
+interface FeedStatsSummaryRow {
+  feedName: string;
+  fetches: number;
+  successes: number;
+  itemsNew: number;
+  lastFetch: string;
+}
+
+interface GenerationRow {
+  id: number;
+  generated_at: string;
+  total_feeds: number;
+  successful_feeds: number;
+  failed_feeds: number;
+  new_items: number;
+  duplicates_removed: number;
+  newsletter: string;
+}
+
+/**
+ * Processed URLs and story clusters are kept per deduplication namespace,
+ * and editions, roll-ups, scores, the search archive and the generation
+ * history per newsletter; see forNewsletter. Feed statistics and the fetch cache are
+ * shared by every newsletter.
+ */
 export class DatabaseManager {
   private db: Database.Database;
   private dbPath: string;
+  private newsletterId = DEFAULT_NEWSLETTER_ID;
+  private dedupNamespace = DEFAULT_NEWSLETTER_ID;
 
-  constructor(dbPath: string = './data/processed.db') {
+  /**
+   * @param options.snapshot Work on an in-memory copy of the database file.
+   *   Every write is discarded on close, which is what previews rely on.
+   */
+  constructor(dbPath: string = './data/processed.db', options: { snapshot?: boolean } = {}) {
     this.dbPath = dbPath;
 
-    // Ensure data directory exists
-    const dir = path.dirname(dbPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+    if (options.snapshot) {
+      this.db = fs.existsSync(dbPath)
+        ? new Database(fs.readFileSync(dbPath))
+        : new Database(':memory:');
+    } else {
+      // Ensure data directory exists
+      const dir = path.dirname(dbPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      this.db = new Database(dbPath);
     }
 
-    this.db = new Database(dbPath);
     this.initialize();
   }
 
   private initialize(): void {
     // Create processed items table
-    this.db.exec(`
+    this.createKeyedTable('processed_items', 'namespace', `
       CREATE TABLE IF NOT EXISTS processed_items (
-        url TEXT PRIMARY KEY,
+        namespace TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}',
+        url TEXT NOT NULL,
         feed_name TEXT NOT NULL,
         processed_at TEXT NOT NULL,
         title TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (namespace, url)
       )
     `);
 
@@ -50,6 +173,25 @@ export class DatabaseManager {
         error_message TEXT
       )
     `);
+    this.ensureColumn('feed_stats', 'from_cache', 'INTEGER DEFAULT 0');
+    this.ensureColumn('feed_stats', 'error_kind', 'TEXT');
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_feed_stats_feed
+      ON feed_stats(feed_name, fetch_date)
+    `);
+
+    // Create feed cache table for conditional GET validators
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS feed_cache (
+        url TEXT PRIMARY KEY,
+        feed_name TEXT NOT NULL,
+        etag TEXT,
+        last_modified TEXT,
+        body_hash TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
 
     // Create generation history table
     this.db.exec(`
@@ -63,34 +205,251 @@ export class DatabaseManager {
         duplicates_removed INTEGER
       )
     `);
+    this.ensureColumn('generation_history', 'newsletter', `TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}'`);
+
+    // Create story cluster tables
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS story_clusters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        lead_url TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.ensureColumn('story_clusters', 'namespace', `TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}'`);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS story_cluster_members (
+        cluster_id INTEGER NOT NULL REFERENCES story_clusters(id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        feed_name TEXT NOT NULL,
+        title TEXT,
+        added_at TEXT NOT NULL,
+        PRIMARY KEY (cluster_id, url)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_story_clusters_created
+      ON story_clusters(created_at)
+    `);
+
+    // Create item score table for tuning the ranking
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS item_scores (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scored_at TEXT NOT NULL,
+        url TEXT NOT NULL,
+        feed_name TEXT NOT NULL,
+        title TEXT,
+        category TEXT,
+        score REAL NOT NULL,
+        breakdown TEXT NOT NULL,
+        selected INTEGER NOT NULL
+      )
+    `);
+    this.ensureColumn('item_scores', 'newsletter', `TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}'`);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_item_scores_scored
+      ON item_scores(scored_at)
+    `);
+
+    // Create edition tables; like the search archive they are never pruned
+    this.createKeyedTable('editions', 'newsletter', `
+      CREATE TABLE IF NOT EXISTS editions (
+        newsletter TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}',
+        date TEXT NOT NULL,
+        generated_at TEXT NOT NULL,
+        total_feeds INTEGER NOT NULL,
+        successful_feeds INTEGER NOT NULL,
+        failed_feeds INTEGER NOT NULL,
+        new_items INTEGER NOT NULL,
+        duplicates_removed INTEGER NOT NULL,
+        feed_results TEXT NOT NULL,
+        feed_health TEXT NOT NULL,
+        PRIMARY KEY (newsletter, date)
+      )
+    `);
+
+    // Sources folded into a story are stored with parent_id pointing at it
+    this.createKeyedTable('edition_items', 'newsletter', `
+      CREATE TABLE IF NOT EXISTS edition_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        newsletter TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}',
+        edition_date TEXT NOT NULL,
+        parent_id INTEGER REFERENCES edition_items(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        item_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        link TEXT NOT NULL,
+        description TEXT,
+        author TEXT,
+        category TEXT,
+        feed_name TEXT NOT NULL,
+        pub_date TEXT NOT NULL,
+        score REAL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_edition_items_edition
+      ON edition_items(newsletter, edition_date, position)
+    `);
+
+    // A roll-up's items are kept in edition_items under its period
+    // ("2026-W42", "2026-10"), which never looks like an edition date
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rollups (
+        newsletter TEXT NOT NULL,
+        cadence TEXT NOT NULL,
+        period TEXT NOT NULL,
+        generated_at TEXT NOT NULL,
+        edition_dates TEXT NOT NULL,
+        candidate_count INTEGER NOT NULL,
+        PRIMARY KEY (newsletter, cadence, period)
+      )
+    `);
+
+    // Create the search archive; unlike processed_items it is never pruned
+    this.createKeyedTable('search_items', 'newsletter', `
+      CREATE TABLE IF NOT EXISTS search_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        newsletter TEXT NOT NULL DEFAULT '${DEFAULT_NEWSLETTER_ID}',
+        url TEXT NOT NULL,
+        link TEXT NOT NULL,
+        feed_name TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        author TEXT,
+        category TEXT,
+        published_at TEXT NOT NULL,
+        edition_date TEXT NOT NULL,
+        UNIQUE (newsletter, url)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        title, description, author, category,
+        content = 'search_items',
+        content_rowid = 'id',
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    // Keep the external-content index in step with search_items
+    this.db.exec(`
+      CREATE TRIGGER IF NOT EXISTS search_items_ai AFTER INSERT ON search_items BEGIN
+        INSERT INTO search_index (rowid, title, description, author, category)
+        VALUES (new.id, new.title, new.description, new.author, new.category);
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_items_ad AFTER DELETE ON search_items BEGIN
+        INSERT INTO search_index (search_index, rowid, title, description, author, category)
+        VALUES ('delete', old.id, old.title, old.description, old.author, old.category);
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_items_au AFTER UPDATE ON search_items BEGIN
+        INSERT INTO search_index (search_index, rowid, title, description, author, category)
+        VALUES ('delete', old.id, old.title, old.description, old.author, old.category);
+        INSERT INTO search_index (rowid, title, description, author, category)
+        VALUES (new.id, new.title, new.description, new.author, new.category);
+      END;
+    `);
+
+    // Create metadata table for one-off migrations
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
 
     console.log('Database initialized successfully');
   }
 
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    return columns.some(c => c.name === column);
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    // Older databases were created before some columns existed
+    if (!this.hasColumn(table, column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Runs `create`, a CREATE TABLE IF NOT EXISTS statement. A table left by
+   * an older version, from before `column` was added to its key, is copied
+   * into the new layout: SQLite cannot change a key in place. Existing rows
+   * get the column's default; ids are kept, so the search index stays valid.
+   */
+  private createKeyedTable(table: string, column: string, create: string): void {
+    const exists = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+    if (!exists) {
+      this.db.exec(create);
+      return;
+    }
+    if (this.hasColumn(table, column)) return;
+
+    const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[])
+      .map(c => c.name)
+      .join(', ');
+
+    // Dropping the old table must not cascade into the tables that referred to it
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      this.db.transaction(() => {
+        this.db.exec(create.replace(`IF NOT EXISTS ${table} `, `${table}_migrated `));
+        this.db.exec(`INSERT INTO ${table}_migrated (${columns}) SELECT ${columns} FROM ${table}`);
+        this.db.exec(`DROP TABLE ${table}`);
+        this.db.exec(`ALTER TABLE ${table}_migrated RENAME TO ${table}`);
+      })();
+    } finally {
+      this.db.pragma('foreign_keys = ON');
+    }
+    console.log(`Migrated ${table} to per-newsletter storage`);
+  }
+
+  /**
+   * A view of the same database for one newsletter: editions, roll-ups,
+   * scores, the search archive and the generation history are stored under its id, and
+   * processed URLs and story clusters under its dedupNamespace. Newsletters
+   * that share a namespace never repeat each other's items.
+   */
+  forNewsletter(newsletter: Pick<Newsletter, 'id' | 'dedupNamespace'>): DatabaseManager {
+    const view = Object.create(this) as DatabaseManager;
+    view.newsletterId = newsletter.id;
+    view.dedupNamespace = newsletter.dedupNamespace;
+    return view;
+  }
+
   isProcessed(url: string): boolean {
-    const stmt = this.db.prepare('SELECT 1 FROM processed_items WHERE url = ?');
-    const result = stmt.get(url);
+    const stmt = this.db.prepare('SELECT 1 FROM processed_items WHERE namespace = ? AND url = ?');
+    const result = stmt.get(this.dedupNamespace, url);
     return !!result;
   }
 
   markAsProcessed(url: string, feedName: string, title?: string): void {
     const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO processed_items (url, feed_name, processed_at, title)
-      VALUES (?, ?, ?, ?)
+      INSERT OR IGNORE INTO processed_items (namespace, url, feed_name, processed_at, title)
+      VALUES (?, ?, ?, ?, ?)
     `);
-    stmt.run(url, feedName, new Date().toISOString(), title || null);
+    stmt.run(this.dedupNamespace, url, feedName, new Date().toISOString(), title || null);
   }
 
   markMultipleAsProcessed(items: { url: string; feedName: string; title?: string }[]): void {
     const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO processed_items (url, feed_name, processed_at, title)
-      VALUES (?, ?, ?, ?)
+      INSERT OR IGNORE INTO processed_items (namespace, url, feed_name, processed_at, title)
+      VALUES (?, ?, ?, ?, ?)
     `);
 
     const insertMany = this.db.transaction((items: { url: string; feedName: string; title?: string }[]) => {
       const now = new Date().toISOString();
       for (const item of items) {
-        stmt.run(item.url, item.feedName, now, item.title || null);
+        stmt.run(this.dedupNamespace, item.url, item.feedName, now, item.title || null);
       }
     });
 
@@ -98,14 +457,92 @@ export class DatabaseManager {
   }
 
   getProcessedUrls(): Set<string> {
-    const stmt = this.db.prepare('SELECT url FROM processed_items');
-    const rows = stmt.all() as { url: string }[];
+    const stmt = this.db.prepare('SELECT url FROM processed_items WHERE namespace = ?');
+    const rows = stmt.all(this.dedupNamespace) as { url: string }[];
     return new Set(rows.map(r => r.url));
   }
 
+  /**
+   * Rewrites every stored URL, in every namespace, through `canonicalize`.
+   * When several stored URLs map to the same canonical URL, the earliest
+   * processed_at is kept.
+   */
+  rekeyProcessedUrls(canonicalize: (url: string) => string): number {
+    const rows = this.db.prepare('SELECT namespace, url FROM processed_items').all() as { namespace: string; url: string }[];
+    const upsert = this.db.prepare(`
+      INSERT INTO processed_items (namespace, url, feed_name, processed_at, title, created_at)
+      SELECT namespace, ?, feed_name, processed_at, title, created_at
+      FROM processed_items WHERE namespace = ? AND url = ?
+      ON CONFLICT(namespace, url) DO UPDATE SET
+        processed_at = MIN(processed_items.processed_at, excluded.processed_at)
+    `);
+    const remove = this.db.prepare('DELETE FROM processed_items WHERE namespace = ? AND url = ?');
+
+    const rekey = this.db.transaction(() => {
+      let changed = 0;
+      for (const { namespace, url } of rows) {
+        const canonical = canonicalize(url);
+        if (canonical === url) continue;
+        upsert.run(canonical, namespace, url);
+        remove.run(namespace, url);
+        changed++;
+      }
+      return changed;
+    });
+
+    return rekey();
+  }
+
+  getRecentClusters(since: string): StoredCluster[] {
+    const stmt = this.db.prepare(`
+      SELECT c.id, c.signature, GROUP_CONCAT(m.feed_name, char(31)) as feed_names
+      FROM story_clusters c
+      LEFT JOIN story_cluster_members m ON m.cluster_id = c.id
+      WHERE c.namespace = ? AND c.created_at >= ?
+      GROUP BY c.id
+    `);
+    const rows = stmt.all(this.dedupNamespace, since) as { id: number; signature: string; feed_names: string | null }[];
+    return rows.map(row => ({
+      id: row.id,
+      signature: JSON.parse(row.signature),
+      feedNames: row.feed_names ? row.feed_names.split('\x1f') : []
+    }));
+  }
+
+  createCluster(title: string, leadUrl: string, signature: string[]): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO story_clusters (namespace, title, lead_url, signature, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(this.dedupNamespace, title, leadUrl, JSON.stringify(signature), new Date().toISOString());
+    return Number(result.lastInsertRowid);
+  }
+
+  addClusterMember(clusterId: number, url: string, feedName: string, title?: string): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO story_cluster_members (cluster_id, url, feed_name, title, added_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    stmt.run(clusterId, url, feedName, title || null, new Date().toISOString());
+  }
+
+  getMetadata(key: string): string | null {
+    const stmt = this.db.prepare('SELECT value FROM metadata WHERE key = ?');
+    const row = stmt.get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  setMetadata(key: string, value: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO metadata (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(key, value);
+  }
+
   getProcessedCount(): number {
-    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM processed_items');
-    const result = stmt.get() as { count: number };
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM processed_items WHERE namespace = ?');
+    const result = stmt.get(this.dedupNamespace) as { count: number };
     return result.count;
   }
 
@@ -115,14 +552,22 @@ export class DatabaseManager {
 
     const stmt = this.db.prepare(`
       DELETE FROM processed_items
-      WHERE processed_at < ?
+      WHERE namespace = ? AND processed_at < ?
     `);
-    const result = stmt.run(cutoffDate.toISOString());
+    const result = stmt.run(this.dedupNamespace, cutoffDate.toISOString());
 
     if (result.changes > 0) {
       console.log(`Cleaned ${result.changes} old entries (older than ${retentionDays} days)`);
     }
 
+    const clusterCutoff = cutoffDate.toISOString();
+    this.db.prepare(`
+      DELETE FROM story_cluster_members
+      WHERE cluster_id IN (SELECT id FROM story_clusters WHERE namespace = ? AND created_at < ?)
+    `).run(this.dedupNamespace, clusterCutoff);
+    this.db.prepare('DELETE FROM story_clusters WHERE namespace = ? AND created_at < ?').run(this.dedupNamespace, clusterCutoff);
+    this.db.prepare('DELETE FROM item_scores WHERE newsletter = ? AND scored_at < ?').run(this.newsletterId, clusterCutoff);
+
     return result.changes;
   }
 
@@ -131,20 +576,98 @@ export class DatabaseManager {
     itemsFetched: number,
     itemsNew: number,
     success: boolean,
-    errorMessage?: string
-  ): void {
+    errorMessage?: string,
+    fromCache: boolean = false,
+    errorKind?: FetchErrorKind
+  ): number {
     const stmt = this.db.prepare(`
-      INSERT INTO feed_stats (feed_name, fetch_date, items_fetched, items_new, success, error_message)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO feed_stats
+      (feed_name, fetch_date, items_fetched, items_new, success, error_message, from_cache, error_kind)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
-    stmt.run(
+    const result = stmt.run(
       feedName,
       new Date().toISOString(),
       itemsFetched,
       itemsNew,
       success ? 1 : 0,
-      errorMessage || null
+      errorMessage || null,
+      fromCache ? 1 : 0,
+      errorKind || null
     );
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Sets how many new items a fetch recorded by recordFeedStats yielded. */
+  setFeedStatsNewItems(id: number, itemsNew: number): void {
+    this.db.prepare('UPDATE feed_stats SET items_new = ? WHERE id = ?').run(itemsNew, id);
+  }
+
+  private mapFeedStats(rows: FeedStatsRow[]): FeedStatsRecord[] {
+    return rows.map(row => ({
+      fetchDate: row.fetch_date,
+      success: row.success === 1,
+      errorMessage: row.error_message,
+      errorKind: row.error_kind
+    }));
+  }
+
+  getFeedStatsHistory(feedName: string, limit: number): FeedStatsRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT fetch_date, success, error_message, error_kind
+      FROM feed_stats
+      WHERE feed_name = ?
+      ORDER BY fetch_date DESC
+      LIMIT ?
+    `);
+    return this.mapFeedStats(stmt.all(feedName, limit) as FeedStatsRow[]);
+  }
+
+  getFailuresSinceLastSuccess(feedName: string): FeedStatsRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT fetch_date, success, error_message, error_kind
+      FROM feed_stats
+      WHERE feed_name = ?
+        AND success = 0
+        AND fetch_date > COALESCE(
+          (SELECT MAX(fetch_date) FROM feed_stats WHERE feed_name = ? AND success = 1),
+          ''
+        )
+      ORDER BY fetch_date ASC
+    `);
+    return this.mapFeedStats(stmt.all(feedName, feedName) as FeedStatsRow[]);
+  }
+
+  getFeedCache(url: string): FeedCacheEntry | null {
+    const stmt = this.db.prepare(`
+      SELECT url, etag, last_modified as lastModified, body_hash as bodyHash, updated_at as updatedAt
+      FROM feed_cache
+      WHERE url = ?
+    `);
+    const row = stmt.get(url) as FeedCacheEntry | undefined;
+    return row || null;
+  }
+
+  saveFeedCaches(entries: FeedCacheUpdate[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO feed_cache (url, feed_name, etag, last_modified, body_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(url) DO UPDATE SET
+        feed_name = excluded.feed_name,
+        etag = excluded.etag,
+        last_modified = excluded.last_modified,
+        body_hash = excluded.body_hash,
+        updated_at = excluded.updated_at
+    `);
+
+    const saveMany = this.db.transaction((entries: FeedCacheUpdate[]) => {
+      const now = new Date().toISOString();
+      for (const entry of entries) {
+        stmt.run(entry.url, entry.feedName, entry.etag, entry.lastModified, entry.bodyHash, now);
+      }
+    });
+
+    saveMany(entries);
   }
 
   recordGeneration(stats: {
@@ -156,10 +679,11 @@ export class DatabaseManager {
   }): void {
     const stmt = this.db.prepare(`
       INSERT INTO generation_history
-      (generated_at, total_feeds, successful_feeds, failed_feeds, new_items, duplicates_removed)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (newsletter, generated_at, total_feeds, successful_feeds, failed_feeds, new_items, duplicates_removed)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
+      this.newsletterId,
       new Date().toISOString(),
       stats.totalFeeds,
       stats.successfulFeeds,
@@ -169,13 +693,438 @@ export class DatabaseManager {
     );
   }
 
-  getRecentGenerations(limit: number = 10): any[] {
+  /** Forgets a URL in every namespace. */
+  forgetUrl(url: string): number {
+    const stmt = this.db.prepare('DELETE FROM processed_items WHERE url = ?');
+    return stmt.run(url).changes;
+  }
+
+  /**
+   * Forgets everything stored about a feed: its processed URLs in every
+   * namespace, its fetch history (which also lifts a quarantine) and its
+   * conditional GET cache.
+   */
+  resetFeed(feedName: string, feedUrl: string): { processed: number; stats: number; cache: number } {
+    const reset = this.db.transaction(() => ({
+      processed: this.db.prepare('DELETE FROM processed_items WHERE feed_name = ?').run(feedName).changes,
+      stats: this.db.prepare('DELETE FROM feed_stats WHERE feed_name = ?').run(feedName).changes,
+      cache: this.db.prepare('DELETE FROM feed_cache WHERE url = ? OR feed_name = ?').run(feedUrl, feedName).changes
+    }));
+    return reset();
+  }
+
+  pruneFeedStats(olderThanDays: number): number {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
+    const stmt = this.db.prepare('DELETE FROM feed_stats WHERE fetch_date < ?');
+    return stmt.run(cutoffDate.toISOString()).changes;
+  }
+
+  pruneFeedCache(keepUrls: string[]): number {
+    const keep = new Set(keepUrls);
+    const rows = this.db.prepare('SELECT url FROM feed_cache').all() as { url: string }[];
+    const remove = this.db.prepare('DELETE FROM feed_cache WHERE url = ?');
+    const prune = this.db.transaction(() => {
+      let removed = 0;
+      for (const { url } of rows) {
+        if (!keep.has(url)) {
+          removed += remove.run(url).changes;
+        }
+      }
+      return removed;
+    });
+    return prune();
+  }
+
+  /** Stores one run's scores; every row of a run shares `scoredAt`. */
+  recordItemScores(scoredAt: string, scores: Omit<StoredItemScore, 'scoredAt'>[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO item_scores (newsletter, scored_at, url, feed_name, title, category, score, breakdown, selected)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertMany = this.db.transaction((rows: Omit<StoredItemScore, 'scoredAt'>[]) => {
+      for (const row of rows) {
+        stmt.run(
+          this.newsletterId,
+          scoredAt,
+          row.url,
+          row.feedName,
+          row.title,
+          row.category,
+          row.breakdown.total,
+          JSON.stringify(row.breakdown),
+          row.selected ? 1 : 0
+        );
+      }
+    });
+
+    insertMany(scores);
+  }
+
+  /**
+   * Scores of the most recent run, or of every run since `since`,
+   * best first within each run.
+   */
+  getItemScores(options: { since?: string; feedName?: string } = {}): StoredItemScore[] {
+    const conditions = ['newsletter = ?'];
+    const params = [this.newsletterId];
+
+    if (options.since) {
+      conditions.push('scored_at >= ?');
+      params.push(options.since);
+    } else {
+      conditions.push('scored_at = (SELECT MAX(scored_at) FROM item_scores WHERE newsletter = ?)');
+      params.push(this.newsletterId);
+    }
+    if (options.feedName) {
+      conditions.push('feed_name = ?');
+      params.push(options.feedName);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT scored_at, url, feed_name, title, category, breakdown, selected
+      FROM item_scores
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY scored_at DESC, score DESC
+    `).all(...params) as ItemScoreRow[];
+
+    return rows.map(row => ({
+      scoredAt: row.scored_at,
+      url: row.url,
+      feedName: row.feed_name,
+      title: row.title || '',
+      category: row.category || '',
+      selected: row.selected === 1,
+      breakdown: JSON.parse(row.breakdown) as ScoreBreakdown
+    }));
+  }
+
+  /**
+   * Stores an edition with its items. An edition already stored for the
+   * same date is replaced, as its archive page is; generate merges a
+   * same-day run into it first (see mergeEditions).
+   */
+  saveEdition(edition: EditionRecord): void {
+    const insertEdition = this.db.prepare(`
+      INSERT INTO editions
+      (newsletter, date, generated_at, total_feeds, successful_feeds, failed_feeds, new_items, duplicates_removed, feed_results, feed_health)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM editions WHERE newsletter = ? AND date = ?').run(this.newsletterId, edition.date);
+
+      const { stats } = edition;
+      insertEdition.run(
+        this.newsletterId,
+        edition.date,
+        stats.generatedAt.toISOString(),
+        stats.totalFeeds,
+        stats.successfulFeeds,
+        stats.failedFeeds,
+        stats.newItems,
+        stats.duplicatesRemoved,
+        JSON.stringify(edition.feedResults),
+        JSON.stringify(edition.feedHealth)
+      );
+
+      this.saveEditionItems(edition.date, edition.items);
+    });
+
+    save();
+  }
+
+  /** Replaces the items stored under `key`, an edition date or a roll-up period. */
+  private saveEditionItems(key: string, items: FeedItem[]): void {
+    const insertItem = this.db.prepare(`
+      INSERT INTO edition_items
+      (newsletter, edition_date, parent_id, position, item_id, title, link, description, author, category, feed_name, pub_date, score)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const addItem = (item: FeedItem, position: number, parentId: number | null): number => Number(insertItem.run(
+      this.newsletterId,
+      key,
+      parentId,
+      position,
+      item.id,
+      item.title,
+      item.link,
+      item.description || null,
+      item.author || null,
+      item.category || null,
+      item.feedName,
+      new Date(item.pubDate).toISOString(),
+      item.score ?? null
+    ).lastInsertRowid);
+
+    this.db.prepare('DELETE FROM edition_items WHERE newsletter = ? AND edition_date = ?').run(this.newsletterId, key);
+    items.forEach((item, position) => {
+      const id = addItem(item, position, null);
+      (item.alsoCoveredBy || []).forEach((other, otherPosition) => addItem(other, otherPosition, id));
+    });
+  }
+
+  /** Stored editions, newest first, with their number of stories and categories. */
+  getEditionSummaries(): EditionSummary[] {
+    const rows = this.db.prepare(`
+      SELECT
+        e.date,
+        e.generated_at,
+        (
+          SELECT COUNT(*) FROM edition_items
+          WHERE newsletter = e.newsletter AND edition_date = e.date AND parent_id IS NULL
+        ) AS item_count,
+        (
+          SELECT GROUP_CONCAT(category, char(31)) FROM (
+            SELECT DISTINCT category FROM edition_items
+            WHERE newsletter = e.newsletter AND edition_date = e.date AND parent_id IS NULL AND category IS NOT NULL
+            ORDER BY position
+          )
+        ) AS categories
+      FROM editions e
+      WHERE e.newsletter = ?
+      ORDER BY e.date DESC
+    `).all(this.newsletterId) as { date: string; generated_at: string; item_count: number; categories: string | null }[];
+
+    return rows.map(row => ({
+      date: row.date,
+      generatedAt: row.generated_at,
+      itemCount: row.item_count,
+      categories: row.categories ? row.categories.split('\x1f') : []
+    }));
+  }
+
+  getEdition(date: string): EditionRecord | null {
+    const row = this.db.prepare('SELECT * FROM editions WHERE newsletter = ? AND date = ?').get(this.newsletterId, date) as EditionRow | undefined;
+    if (!row) return null;
+
+    return {
+      date: row.date,
+      stats: {
+        totalFeeds: row.total_feeds,
+        successfulFeeds: row.successful_feeds,
+        failedFeeds: row.failed_feeds,
+        newItems: row.new_items,
+        duplicatesRemoved: row.duplicates_removed,
+        generatedAt: new Date(row.generated_at)
+      },
+      feedResults: JSON.parse(row.feed_results),
+      feedHealth: JSON.parse(row.feed_health),
+      items: this.getEditionItems(date)
+    };
+  }
+
+  private getEditionItems(key: string): FeedItem[] {
+    const itemRows = this.db.prepare(`
+      SELECT * FROM edition_items
+      WHERE newsletter = ? AND edition_date = ?
+      ORDER BY parent_id IS NOT NULL, position
+    `).all(this.newsletterId, key) as EditionItemRow[];
+
+    const stories = new Map<number, FeedItem>();
+    for (const itemRow of itemRows) {
+      const item: FeedItem = {
+        id: itemRow.item_id,
+        title: itemRow.title,
+        link: itemRow.link,
+        description: itemRow.description || '',
+        author: itemRow.author || undefined,
+        category: itemRow.category || '',
+        feedName: itemRow.feed_name,
+        pubDate: new Date(itemRow.pub_date),
+        score: itemRow.score ?? undefined
+      };
+
+      // Stories come first, so every parent is already in the map
+      const parent = itemRow.parent_id === null ? undefined : stories.get(itemRow.parent_id);
+      if (parent) {
+        parent.alsoCoveredBy = [...(parent.alsoCoveredBy || []), item];
+      } else {
+        stories.set(itemRow.id, item);
+      }
+    }
+
+    return Array.from(stories.values());
+  }
+
+  /** Stores a roll-up with its items, replacing one already stored for the period. */
+  saveRollup(rollup: RollupRecord): void {
+    const save = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO rollups (newsletter, cadence, period, generated_at, edition_dates, candidate_count)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        this.newsletterId,
+        rollup.cadence,
+        rollup.period,
+        rollup.generatedAt.toISOString(),
+        JSON.stringify(rollup.editionDates),
+        rollup.candidateCount
+      );
+
+      this.saveEditionItems(rollup.period, rollup.items);
+    });
+
+    save();
+  }
+
+  /** Stored roll-ups of one cadence, newest first. */
+  getRollupSummaries(cadence: RollupCadence): RollupSummary[] {
+    const rows = this.db.prepare(`
+      SELECT
+        r.period,
+        r.generated_at,
+        (
+          SELECT COUNT(*) FROM edition_items
+          WHERE newsletter = r.newsletter AND edition_date = r.period AND parent_id IS NULL
+        ) AS item_count
+      FROM rollups r
+      WHERE r.newsletter = ? AND r.cadence = ?
+      ORDER BY r.period DESC
+    `).all(this.newsletterId, cadence) as { period: string; generated_at: string; item_count: number }[];
+
+    return rows.map(row => ({
+      cadence,
+      period: row.period,
+      generatedAt: row.generated_at,
+      itemCount: row.item_count
+    }));
+  }
+
+  getRollup(cadence: RollupCadence, period: string): RollupRecord | null {
+    const row = this.db.prepare('SELECT * FROM rollups WHERE newsletter = ? AND cadence = ? AND period = ?')
+      .get(this.newsletterId, cadence, period) as RollupRow | undefined;
+    if (!row) return null;
+
+    return {
+      cadence,
+      period: row.period,
+      generatedAt: new Date(row.generated_at),
+      editionDates: JSON.parse(row.edition_dates),
+      candidateCount: row.candidate_count,
+      items: this.getEditionItems(period)
+    };
+  }
+
+  /** Adds published items to the search archive, updating ones already there. */
+  indexForSearch(documents: SearchDocument[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO search_items (newsletter, url, link, feed_name, title, description, author, category, published_at, edition_date)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(newsletter, url) DO UPDATE SET
+        link = excluded.link,
+        feed_name = excluded.feed_name,
+        title = excluded.title,
+        description = excluded.description,
+        author = excluded.author,
+        category = excluded.category,
+        published_at = excluded.published_at,
+        edition_date = excluded.edition_date
+    `);
+
+    const insertMany = this.db.transaction((documents: SearchDocument[]) => {
+      for (const doc of documents) {
+        stmt.run(
+          this.newsletterId,
+          doc.url,
+          doc.link,
+          doc.feedName,
+          doc.title,
+          doc.description,
+          doc.author || null,
+          doc.category,
+          doc.publishedAt,
+          doc.editionDate
+        );
+      }
+    });
+
+    insertMany(documents);
+  }
+
+  /**
+   * Full-text search over the archive, best match first. `query` is FTS5
+   * syntax; see toMatchQuery for turning user input into it.
+   */
+  search(query: string, options: { feedName?: string; limit?: number } = {}): SearchResult[] {
+    const params: (string | number)[] = [query, this.newsletterId];
+    let feedCondition = '';
+    if (options.feedName) {
+      feedCondition = 'AND i.feed_name = ?';
+      params.push(options.feedName);
+    }
+    params.push(options.limit ?? 20);
+
+    // Title matches weigh the most, then the description; the snippet is
+    // taken from the description
+    const rows = this.db.prepare(`
+      SELECT i.*, snippet(search_index, 1, '[', ']', '…', 12) AS snippet
+      FROM search_index
+      JOIN search_items i ON i.id = search_index.rowid
+      WHERE search_index MATCH ? AND i.newsletter = ? ${feedCondition}
+      ORDER BY bm25(search_index, 10, 2, 1, 1)
+      LIMIT ?
+    `).all(...params) as (SearchItemRow & { snippet: string })[];
+
+    return rows.map(row => ({ ...this.toSearchDocument(row), snippet: row.snippet }));
+  }
+
+  /** The whole archive, newest edition first, for the static search page. */
+  getSearchDocuments(): SearchDocument[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM search_items WHERE newsletter = ? ORDER BY edition_date DESC, published_at DESC
+    `).all(this.newsletterId) as SearchItemRow[];
+    return rows.map(row => this.toSearchDocument(row));
+  }
+
+  private toSearchDocument(row: SearchItemRow): SearchDocument {
+    return {
+      url: row.url,
+      link: row.link,
+      title: row.title,
+      description: row.description || '',
+      author: row.author || undefined,
+      feedName: row.feed_name,
+      category: row.category || '',
+      publishedAt: row.published_at,
+      editionDate: row.edition_date
+    };
+  }
+
+  vacuum(): void {
+    this.db.exec('VACUUM');
+  }
+
+  getFeedStatsSummary(): {
+    feedName: string;
+    fetches: number;
+    successes: number;
+    itemsNew: number;
+    lastFetch: string;
+  }[] {
+    const stmt = this.db.prepare(`
+      SELECT feed_name as feedName,
+        COUNT(*) as fetches,
+        SUM(success) as successes,
+        SUM(items_new) as itemsNew,
+        MAX(fetch_date) as lastFetch
+      FROM feed_stats
+      GROUP BY feed_name
+      ORDER BY feed_name
+    `);
+    return stmt.all() as FeedStatsSummaryRow[];
+  }
+
+  getRecentGenerations(limit: number = 10): GenerationRow[] {
     const stmt = this.db.prepare(`
       SELECT * FROM generation_history
+      WHERE newsletter = ?
       ORDER BY generated_at DESC
       LIMIT ?
     `);
-    return stmt.all(limit);
+    return stmt.all(this.newsletterId, limit) as GenerationRow[];
   }
 
   close(): void {
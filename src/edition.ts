@@ -0,0 +1,747 @@
+import {
+  EditionRecord,
+  FeedHealth,
+  FeedItem,
+  FeedResultSummary,
+  FetchResult,
+  GenerationStats,
+  NewsletterConfig,
+  RollupCadence,
+  RollupRecord,
+  RollupSummary
+} from './types.js';
+import { compareItems } from './itemScorer.js';
+import { Messages, formatMessage, messagesFor } from './messages.js';
+import { OPML_FILE } from './opml.js';
+
+export interface EditionItem {
+  id: string;
+  title: string;
+  link: string;
+  feedName: string;
+  author?: string;
+  description: string;
+  published: string;
+  timeAgo: string;
+  score?: number;
+  alsoCoveredBy: { feedName: string; link: string; title: string }[];
+}
+
+export interface EditionCategory {
+  name: string;
+  icon: string;
+  itemCount: number;
+  items: EditionItem[];
+}
+
+export interface EditionFeedStatus {
+  name: string;
+  state: 'success' | 'error' | 'quarantined';
+  tooltip: string;
+  errorKind?: string;
+  health?: { status: string; label: string; since?: string };
+}
+
+/** What every page gets: the newsletter, its language and the message catalog. */
+export interface PageModel {
+  newsletter: { title: string; description: string; author: string };
+  generatedAt: string;
+  /** For the lang attribute, e.g. "en-US" */
+  lang: string;
+  messages: Messages;
+}
+
+/**
+ * Everything a theme needs to render one edition. Values are already
+ * formatted, so templates only place them.
+ */
+export interface EditionModel extends PageModel {
+  date: string;
+  time: string;
+  stats: GenerationStats & { itemCount: number };
+  hasItems: boolean;
+  categories: EditionCategory[];
+  feeds: EditionFeedStatus[];
+  links: { rss: string; atom: string; jsonFeed: string; opml: string; archive: string; search: string };
+  navigation?: EditionNavigation;
+}
+
+/** An archived edition; editions.json is a list of these. */
+export interface ArchiveEntry {
+  date: string;
+  filename: string;
+  itemCount: number;
+  categories: string[];
+  generatedAt?: string;
+}
+
+export interface ArchiveLink {
+  label: string;
+  filename: string;
+}
+
+export interface EditionNavigation {
+  previous?: ArchiveEntry;
+  next?: ArchiveEntry;
+  month: ArchiveLink;
+}
+
+export interface CalendarDay {
+  day: number | null;
+  edition?: ArchiveEntry;
+}
+
+/** A month as calendar rows, weeks starting on Monday. */
+export interface CalendarMonth {
+  name: string;
+  filename: string;
+  editionCount: number;
+  weeks: { days: CalendarDay[] }[];
+}
+
+export interface ArchiveYearSummary {
+  year: string;
+  filename: string;
+  editionCount: number;
+  itemCount: number;
+  months: { name: string; filename: string; editionCount: number }[];
+}
+
+/** archive.html: the most recent editions and an overview of every year. */
+export interface ArchiveModel extends PageModel {
+  editions: ArchiveEntry[];
+  years: ArchiveYearSummary[];
+  /** The index pages of the configured roll-ups. */
+  rollups: ArchiveLink[];
+}
+
+export interface ArchiveYearModel extends PageModel {
+  year: string;
+  editionCount: number;
+  itemCount: number;
+  weekdays: string[];
+  months: CalendarMonth[];
+  links: { archive: string; previous?: ArchiveLink; next?: ArchiveLink };
+}
+
+export interface ArchiveMonthModel extends PageModel {
+  year: string;
+  name: string;
+  weekdays: string[];
+  calendar: CalendarMonth;
+  editions: ArchiveEntry[];
+  links: { archive: string; year: ArchiveLink; previous?: ArchiveLink; next?: ArchiveLink };
+}
+
+/** The static search page; the items themselves are loaded from `links.index`. */
+export interface SearchModel extends PageModel {
+  itemCount: number;
+  links: { index: string; latest: string; archive: string };
+}
+
+/** A week (Monday to Sunday, numbered as in ISO 8601) or a calendar month of edition dates. */
+export interface RollupPeriod {
+  cadence: RollupCadence;
+  /** "2026-W42" or "2026-10" */
+  key: string;
+  start: string;
+  end: string;
+}
+
+/** A weekly or monthly roll-up page; values are formatted as for an edition. */
+export interface RollupModel extends PageModel {
+  cadence: RollupCadence;
+  period: string;
+  /** "Week 42, 2026" or "October 2026" */
+  title: string;
+  /** "Oct 12 – Oct 18, 2026" */
+  range: string;
+  filename: string;
+  stats: { itemCount: number; candidateCount: number; editionCount: number; sourceCount: number };
+  hasItems: boolean;
+  categories: EditionCategory[];
+  editions: { date: string; filename: string }[];
+  links: { index: ArchiveLink; latest: string; archive: string; search: string; previous?: ArchiveLink; next?: ArchiveLink };
+}
+
+/** weekly.html or monthly.html: every roll-up of one cadence, newest first. */
+export interface RollupIndexModel extends PageModel {
+  cadence: RollupCadence;
+  title: string;
+  rollups: { title: string; range: string; filename: string; itemCount: number }[];
+  links: { latest: string; archive: string };
+}
+
+/** The page above the newsletters' directories when there are several. */
+export interface NewsletterIndexModel extends PageModel {
+  newsletters: {
+    title: string;
+    description: string;
+    link: string;
+    archive: string;
+    latest?: ArchiveEntry;
+  }[];
+}
+
+const CATEGORY_ICONS: Record<string, string> = {
+  'Tech News': '📰',
+  'Technology': '💻',
+  'Development': '🛠️',
+  'Web Development': '🌐',
+  'AI & Machine Learning': '🤖',
+  'Cloud & DevOps': '☁️',
+  'Security': '🔒',
+  'Business': '📊',
+  'Science': '🔬',
+  'Gaming': '🎮',
+  'Uncategorized': '📌'
+};
+
+/**
+ * Editions are dated by the day in the newsletter's time zone, the day
+ * their heading shows; a second run on the same day adds to the first
+ * (see mergeEditions).
+ */
+export function editionDateOf(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function editionFilename(editionDate: string): string {
+  return `newsletter-${editionDate}.html`;
+}
+
+export function yearArchiveFilename(year: string): string {
+  return `archive-${year}.html`;
+}
+
+/** `month` is the "YYYY-MM" prefix of an edition date. */
+export function monthArchiveFilename(month: string): string {
+  return `archive-${month}.html`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/** The week or month `date`, an edition date, falls in. */
+export function rollupPeriodOf(cadence: RollupCadence, date: string): RollupPeriod {
+  if (cadence === 'monthly') {
+    const month = date.slice(0, 7);
+    const [year, monthIndex] = month.split('-').map(Number);
+    const days = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+    return { cadence, key: month, start: `${month}-01`, end: `${month}-${String(days).padStart(2, '0')}` };
+  }
+
+  const start = addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+  // A week belongs to the year its Thursday falls in
+  const thursday = new Date(Date.parse(`${start}T00:00:00Z`) + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+  return { cadence, key: `${year}-W${String(week).padStart(2, '0')}`, start, end: addDays(start, 6) };
+}
+
+/** Reads a period key such as "2026-W42" or "2026-10"; null if it is not one. */
+export function parseRollupPeriod(cadence: RollupCadence, key: string): RollupPeriod | null {
+  if (cadence === 'monthly') {
+    return /^\d{4}-(0[1-9]|1[0-2])$/.test(key) ? rollupPeriodOf(cadence, `${key}-01`) : null;
+  }
+
+  const match = key.match(/^(\d{4})-W(\d{2})$/);
+  if (!match) return null;
+  // January 4th is always in week 1
+  const firstWeek = rollupPeriodOf(cadence, `${match[1]}-01-04`);
+  const period = rollupPeriodOf(cadence, addDays(firstWeek.start, (Number(match[2]) - 1) * 7));
+  return period.key === key ? period : null;
+}
+
+/** The last week or month that ended before the one `date` falls in. */
+export function lastCompletedPeriod(cadence: RollupCadence, date: string): RollupPeriod {
+  return rollupPeriodOf(cadence, addDays(rollupPeriodOf(cadence, date).start, -1));
+}
+
+export function rollupFilename(cadence: RollupCadence, period: string): string {
+  return `${cadence}-${period}.html`;
+}
+
+export function rollupIndexFilename(cadence: RollupCadence): string {
+  return `${cadence}.html`;
+}
+
+export function createEditionRecord(
+  items: FeedItem[],
+  stats: GenerationStats,
+  feedResults: FetchResult[],
+  feedHealth: FeedHealth[],
+  timeZone: string
+): EditionRecord {
+  return {
+    date: editionDateOf(stats.generatedAt, timeZone),
+    stats,
+    feedResults: feedResults.map(({ feedName, success, error, errorKind }) => ({ feedName, success, error, errorKind })),
+    feedHealth,
+    items
+  };
+}
+
+/**
+ * A later run's edition folded into the one already stored for its day.
+ * The earlier run's items were marked processed, so the later run only
+ * brings what is new since; its stories come first. Feed results and
+ * health are the later run's.
+ */
+export function mergeEditions(earlier: EditionRecord, later: EditionRecord): EditionRecord {
+  const laterLinks = new Set(later.items.map(item => item.link));
+  const items = [...later.items, ...earlier.items.filter(item => !laterLinks.has(item.link))];
+  return {
+    ...later,
+    stats: {
+      ...later.stats,
+      newItems: items.length,
+      duplicatesRemoved: earlier.stats.duplicatesRemoved + later.stats.duplicatesRemoved
+    },
+    items
+  };
+}
+
+export function toArchiveEntry(edition: EditionRecord): ArchiveEntry {
+  return {
+    date: edition.date,
+    filename: editionFilename(edition.date),
+    itemCount: edition.items.length,
+    categories: Array.from(new Set(edition.items.map(item => item.category || 'Uncategorized'))),
+    generatedAt: edition.stats.generatedAt.toISOString()
+  };
+}
+
+export function getCategoryIcon(category: string): string {
+  return CATEGORY_ICONS[category] || '📌';
+}
+
+/** Dates and times are shown in the newsletter's locale and time zone. */
+function formatDate(date: Date, config: NewsletterConfig): string {
+  return date.toLocaleDateString(config.locale, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: config.timeZone
+  });
+}
+
+function formatTime(date: Date, config: NewsletterConfig): string {
+  return date.toLocaleTimeString(config.locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: config.timeZone,
+    timeZoneName: 'short'
+  });
+}
+
+function formatShortDate(date: Date, config: NewsletterConfig): string {
+  return date.toLocaleDateString(config.locale, { month: 'short', day: 'numeric', timeZone: config.timeZone });
+}
+
+function getTimeAgo(date: Date, now: Date, config: NewsletterConfig): string {
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+  const relative = new Intl.RelativeTimeFormat(config.locale, { numeric: 'auto', style: 'narrow' });
+
+  if (diffMins < 60) return relative.format(-diffMins, 'minute');
+  if (diffHours < 24) return relative.format(-diffHours, 'hour');
+  if (diffDays < 7) return relative.format(-diffDays, 'day');
+  return formatShortDate(date, config);
+}
+
+function groupByCategory(items: FeedItem[]): Map<string, FeedItem[]> {
+  const grouped = new Map<string, FeedItem[]>();
+
+  for (const item of items) {
+    const category = item.category || 'Uncategorized';
+    if (!grouped.has(category)) {
+      grouped.set(category, []);
+    }
+    grouped.get(category)!.push(item);
+  }
+
+  // Best-scored first; by date when scoring is off
+  grouped.forEach(categoryItems => {
+    categoryItems.sort(compareItems);
+  });
+
+  return grouped;
+}
+
+function toEditionItem(item: FeedItem, now: Date, config: NewsletterConfig): EditionItem {
+  const pubDate = new Date(item.pubDate);
+
+  return {
+    id: item.id,
+    title: item.title,
+    link: item.link,
+    feedName: item.feedName,
+    author: item.author,
+    description: item.description,
+    published: pubDate.toISOString(),
+    timeAgo: getTimeAgo(pubDate, now, config),
+    score: item.score,
+    alsoCoveredBy: (item.alsoCoveredBy || []).map(other => ({
+      feedName: other.feedName,
+      link: other.link,
+      title: other.title
+    }))
+  };
+}
+
+function buildFeedStatuses(
+  config: NewsletterConfig,
+  feedResults: FeedResultSummary[],
+  feedHealth: FeedHealth[]
+): EditionFeedStatus[] {
+  const messages = messagesFor(config.locale);
+  const healthLabels: Record<string, string> = { degraded: messages.healthDegraded, quarantined: messages.healthQuarantined };
+  const healthByFeed = new Map(feedHealth.map(h => [h.feedName, h]));
+
+  const fetched: EditionFeedStatus[] = feedResults.map(r => {
+    const health = healthByFeed.get(r.feedName);
+    return {
+      name: r.feedName,
+      state: r.success ? 'success' : 'error',
+      tooltip: r.error || messages.ok,
+      errorKind: r.errorKind,
+      health: health && health.status !== 'healthy'
+        ? { status: health.status, label: healthLabels[health.status], since: health.since || undefined }
+        : undefined
+    };
+  });
+
+  // Quarantined feeds that were not probed in this run
+  const fetchedNames = new Set(feedResults.map(r => r.feedName));
+  const skipped = feedHealth
+    .filter(h => h.status === 'quarantined' && !fetchedNames.has(h.feedName))
+    .map((h): EditionFeedStatus => ({
+      name: h.feedName,
+      state: 'quarantined',
+      tooltip: h.lastError || messages.healthQuarantined,
+      health: {
+        status: 'quarantined',
+        label: formatMessage(messages.quarantinedSince, {
+          date: h.since ? formatShortDate(new Date(h.since), config) : messages.unknown
+        })
+      }
+    }));
+
+  return [...fetched, ...skipped];
+}
+
+function pageInfo(config: NewsletterConfig, now: Date): PageModel {
+  return {
+    newsletter: { title: config.title, description: config.description, author: config.author },
+    generatedAt: now.toISOString(),
+    lang: config.locale,
+    messages: messagesFor(config.locale)
+  };
+}
+
+export function buildEditionModel(
+  config: NewsletterConfig,
+  items: FeedItem[],
+  stats: GenerationStats,
+  feedResults: FeedResultSummary[],
+  feedHealth: FeedHealth[],
+  now: Date = new Date(),
+  navigation?: EditionNavigation
+): EditionModel {
+  const categories = Array.from(groupByCategory(items).entries()).map(([name, categoryItems]) => ({
+    name,
+    icon: getCategoryIcon(name),
+    itemCount: categoryItems.length,
+    items: categoryItems.map(item => toEditionItem(item, now, config))
+  }));
+
+  return {
+    ...pageInfo(config, now),
+    date: formatDate(now, config),
+    time: formatTime(now, config),
+    stats: { ...stats, itemCount: items.length },
+    hasItems: items.length > 0,
+    categories,
+    feeds: buildFeedStatuses(config, feedResults, feedHealth),
+    links: { rss: 'feed.xml', atom: 'atom.xml', jsonFeed: 'feed.json', opml: OPML_FILE, archive: 'archive.html', search: 'search.html' },
+    navigation
+  };
+}
+
+const RECENT_EDITIONS = 10;
+export const ROLLUP_CADENCES: RollupCadence[] = ['weekly', 'monthly'];
+const ROLLUP_SERIES_TITLES: Record<RollupCadence, 'weeklyRollups' | 'monthlyRollups'> = {
+  weekly: 'weeklyRollups',
+  monthly: 'monthlyRollups'
+};
+
+/** Short weekday names from Monday, for calendars. */
+function weekdayNames(config: NewsletterConfig): string[] {
+  // January 1st, 2024 was a Monday
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(Date.UTC(2024, 0, 1 + i)).toLocaleDateString(config.locale, { weekday: 'short', timeZone: 'UTC' })
+  );
+}
+
+// Months, weeks and edition dates are UTC days, so they are formatted in UTC
+function formatMonth(month: string, withYear: boolean, config: NewsletterConfig): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(config.locale, {
+    month: 'long',
+    year: withYear ? 'numeric' : undefined,
+    timeZone: 'UTC'
+  });
+}
+
+function monthLink(month: string | undefined, config: NewsletterConfig): ArchiveLink | undefined {
+  return month ? { label: formatMonth(month, true, config), filename: monthArchiveFilename(month) } : undefined;
+}
+
+function yearLink(year: string | undefined): ArchiveLink | undefined {
+  return year ? { label: year, filename: yearArchiveFilename(year) } : undefined;
+}
+
+/** Groups entries by a prefix of their date ("YYYY" or "YYYY-MM"), keeping their order. */
+function groupByPeriod(editions: ArchiveEntry[], length: number): Map<string, ArchiveEntry[]> {
+  const grouped = new Map<string, ArchiveEntry[]>();
+  for (const edition of editions) {
+    const period = edition.date.slice(0, length);
+    grouped.set(period, [...(grouped.get(period) || []), edition]);
+  }
+  return grouped;
+}
+
+function buildCalendarMonth(month: string, editions: ArchiveEntry[], config: NewsletterConfig): CalendarMonth {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const byDay = new Map(editions.map(e => [Number(e.date.slice(8, 10)), e]));
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const leading = (new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay() + 6) % 7;
+
+  const cells: CalendarDay[] = Array.from({ length: leading }, () => ({ day: null }));
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push({ day, edition: byDay.get(day) });
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push({ day: null });
+  }
+
+  const weeks: CalendarMonth['weeks'] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push({ days: cells.slice(i, i + 7) });
+  }
+
+  return { name: formatMonth(month, false, config), filename: monthArchiveFilename(month), editionCount: editions.length, weeks };
+}
+
+/** Links an edition to its neighbours; `editions` is newest first. */
+export function buildEditionNavigation(config: NewsletterConfig, editions: ArchiveEntry[], date: string): EditionNavigation {
+  const index = editions.findIndex(e => e.date === date);
+  return {
+    previous: index >= 0 ? editions[index + 1] : undefined,
+    next: index > 0 ? editions[index - 1] : undefined,
+    month: monthLink(date.slice(0, 7), config)!
+  };
+}
+
+/** `editions` is newest first, as in editions.json. */
+export function buildArchiveModel(config: NewsletterConfig, editions: ArchiveEntry[], now: Date = new Date()): ArchiveModel {
+  const years = Array.from(groupByPeriod(editions, 4), ([year, yearEditions]) => ({
+    year,
+    filename: yearArchiveFilename(year),
+    editionCount: yearEditions.length,
+    itemCount: yearEditions.reduce((total, e) => total + e.itemCount, 0),
+    months: Array.from(groupByPeriod(yearEditions, 7), ([month, monthEditions]) => ({
+      name: formatMonth(month, false, config),
+      filename: monthArchiveFilename(month),
+      editionCount: monthEditions.length
+    }))
+  }));
+
+  return {
+    ...pageInfo(config, now),
+    editions: editions.slice(0, RECENT_EDITIONS),
+    years,
+    rollups: ROLLUP_CADENCES
+      .filter(cadence => config.editions[cadence])
+      .map(cadence => ({ label: messagesFor(config.locale)[ROLLUP_SERIES_TITLES[cadence]], filename: rollupIndexFilename(cadence) }))
+  };
+}
+
+export function buildArchiveYearModel(
+  config: NewsletterConfig,
+  editions: ArchiveEntry[],
+  year: string,
+  now: Date = new Date()
+): ArchiveYearModel {
+  const years = Array.from(groupByPeriod(editions, 4).keys());
+  const yearEditions = editions.filter(e => e.date.startsWith(`${year}-`));
+  const byMonth = groupByPeriod(yearEditions, 7);
+  const index = years.indexOf(year);
+
+  return {
+    ...pageInfo(config, now),
+    year,
+    editionCount: yearEditions.length,
+    itemCount: yearEditions.reduce((total, e) => total + e.itemCount, 0),
+    weekdays: weekdayNames(config),
+    months: Array.from({ length: 12 }, (_, i) => {
+      const month = `${year}-${String(i + 1).padStart(2, '0')}`;
+      return buildCalendarMonth(month, byMonth.get(month) || [], config);
+    }),
+    links: {
+      archive: 'archive.html',
+      previous: yearLink(years[index + 1]),
+      next: index > 0 ? yearLink(years[index - 1]) : undefined
+    }
+  };
+}
+
+/** `month` is "YYYY-MM". */
+export function buildArchiveMonthModel(
+  config: NewsletterConfig,
+  editions: ArchiveEntry[],
+  month: string,
+  now: Date = new Date()
+): ArchiveMonthModel {
+  const months = Array.from(groupByPeriod(editions, 7).keys());
+  const monthEditions = editions.filter(e => e.date.startsWith(`${month}-`));
+  const index = months.indexOf(month);
+  const year = month.slice(0, 4);
+
+  return {
+    ...pageInfo(config, now),
+    year,
+    name: formatMonth(month, true, config),
+    weekdays: weekdayNames(config),
+    calendar: buildCalendarMonth(month, monthEditions, config),
+    editions: monthEditions,
+    links: {
+      archive: 'archive.html',
+      year: yearLink(year)!,
+      previous: monthLink(months[index + 1], config),
+      next: index > 0 ? monthLink(months[index - 1], config) : undefined
+    }
+  };
+}
+
+export function buildSearchModel(config: NewsletterConfig, itemCount: number, indexFile: string, now: Date = new Date()): SearchModel {
+  return {
+    ...pageInfo(config, now),
+    itemCount,
+    links: { index: indexFile, latest: 'index.html', archive: 'archive.html' }
+  };
+}
+
+function formatRollupTitle(period: RollupPeriod, config: NewsletterConfig): string {
+  return period.cadence === 'weekly'
+    ? formatMessage(messagesFor(config.locale).week, { week: Number(period.key.slice(6)), year: period.key.slice(0, 4) })
+    : formatMonth(period.key, true, config);
+}
+
+function formatRollupRange(period: RollupPeriod, config: NewsletterConfig): string {
+  return new Intl.DateTimeFormat(config.locale, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+    .formatRange(new Date(`${period.start}T00:00:00Z`), new Date(`${period.end}T00:00:00Z`));
+}
+
+function rollupLink(summary: RollupSummary | undefined, config: NewsletterConfig): ArchiveLink | undefined {
+  if (!summary) return undefined;
+  const period = parseRollupPeriod(summary.cadence, summary.period)!;
+  return { label: formatRollupTitle(period, config), filename: rollupFilename(summary.cadence, summary.period) };
+}
+
+/** `rollups` are the stored roll-ups of the same cadence, newest first, for the links to its neighbours. */
+export function buildRollupModel(
+  config: NewsletterConfig,
+  rollup: RollupRecord,
+  rollups: RollupSummary[],
+  now: Date = new Date()
+): RollupModel {
+  const period = parseRollupPeriod(rollup.cadence, rollup.period)!;
+  const index = rollups.findIndex(r => r.period === rollup.period);
+  const categories = Array.from(groupByCategory(rollup.items).entries()).map(([name, categoryItems]) => ({
+    name,
+    icon: getCategoryIcon(name),
+    itemCount: categoryItems.length,
+    items: categoryItems.map(item => toEditionItem(item, rollup.generatedAt, config))
+  }));
+
+  return {
+    ...pageInfo(config, now),
+    cadence: rollup.cadence,
+    period: rollup.period,
+    title: formatRollupTitle(period, config),
+    range: formatRollupRange(period, config),
+    filename: rollupFilename(rollup.cadence, rollup.period),
+    stats: {
+      itemCount: rollup.items.length,
+      candidateCount: rollup.candidateCount,
+      editionCount: rollup.editionDates.length,
+      sourceCount: new Set(rollup.items.map(item => item.feedName)).size
+    },
+    hasItems: rollup.items.length > 0,
+    categories,
+    editions: rollup.editionDates.map(date => ({ date, filename: editionFilename(date) })),
+    links: {
+      index: { label: messagesFor(config.locale)[ROLLUP_SERIES_TITLES[rollup.cadence]], filename: rollupIndexFilename(rollup.cadence) },
+      latest: 'index.html',
+      archive: 'archive.html',
+      search: 'search.html',
+      previous: index >= 0 ? rollupLink(rollups[index + 1], config) : undefined,
+      next: index > 0 ? rollupLink(rollups[index - 1], config) : undefined
+    }
+  };
+}
+
+/** `rollups` is newest first. */
+export function buildRollupIndexModel(
+  config: NewsletterConfig,
+  cadence: RollupCadence,
+  rollups: RollupSummary[],
+  now: Date = new Date()
+): RollupIndexModel {
+  return {
+    ...pageInfo(config, now),
+    cadence,
+    title: messagesFor(config.locale)[ROLLUP_SERIES_TITLES[cadence]],
+    rollups: rollups.map(summary => {
+      const period = parseRollupPeriod(cadence, summary.period)!;
+      return {
+        title: formatRollupTitle(period, config),
+        range: formatRollupRange(period, config),
+        filename: rollupFilename(cadence, summary.period),
+        itemCount: summary.itemCount
+      };
+    }),
+    links: { latest: 'index.html', archive: 'archive.html' }
+  };
+}
+
+/**
+ * @param newsletters Each with its directory relative to the page and its
+ *   latest edition, if it has one.
+ */
+export function buildNewsletterIndexModel(
+  config: NewsletterConfig,
+  newsletters: { config: NewsletterConfig; output: string; latest?: ArchiveEntry }[],
+  now: Date = new Date()
+): NewsletterIndexModel {
+  return {
+    ...pageInfo(config, now),
+    newsletters: newsletters.map(({ config: newsletter, output, latest }) => ({
+      title: newsletter.title,
+      description: newsletter.description,
+      link: `${output}/index.html`,
+      archive: `${output}/archive.html`,
+      latest: latest && { ...latest, filename: `${output}/${latest.filename}` }
+    }))
+  };
+}
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { ArchiveEntry } from './edition.js';
+
+export const MANIFEST_FILE = 'editions.json';
+
+const MANIFEST_VERSION = 1;
+
+interface ManifestFile {
+  version: number;
+  title: string;
+  updated: string;
+  editions: ArchiveEntry[];
+}
+
+/**
+ * editions.json in the output directory: every published edition, newest
+ * first. Each run adds its edition to the list instead of scanning the
+ * archive pages, and other tools can read it to find editions.
+ */
+export class EditionManifest {
+  private file: string;
+  private entries: ArchiveEntry[];
+
+  constructor(outputDir: string, entries: ArchiveEntry[] = []) {
+    this.file = path.join(outputDir, MANIFEST_FILE);
+    this.entries = [...entries].sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Reads the manifest, or returns null if there is none yet. A manifest
+   * that cannot be read is reported and treated as missing.
+   */
+  static read(outputDir: string): EditionManifest | null {
+    const file = path.join(outputDir, MANIFEST_FILE);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(file, 'utf-8')) as ManifestFile;
+      if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.editions)) {
+        throw new Error(`unsupported version ${manifest.version}`);
+      }
+      return new EditionManifest(outputDir, manifest.editions);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Ignoring ${file} (${message}); it will be recreated`);
+      return null;
+    }
+  }
+
+  /** Newest first. */
+  get editions(): ArchiveEntry[] {
+    return this.entries;
+  }
+
+  /** Adds an edition, replacing one with the same date. */
+  add(entry: ArchiveEntry): void {
+    this.entries = [entry, ...this.entries.filter(e => e.date !== entry.date)]
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  write(title: string): void {
+    const manifest: ManifestFile = {
+      version: MANIFEST_VERSION,
+      title,
+      updated: new Date().toISOString(),
+      editions: this.entries
+    };
+    fs.writeFileSync(this.file, JSON.stringify(manifest, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,258 @@
+import { EmailConfig, NewsletterConfig } from './types.js';
+import { EditionItem, EditionModel, RollupModel, editionDateOf, editionFilename } from './edition.js';
+import { Messages, formatMessage } from './messages.js';
+
+export const DEFAULT_EMAIL_SUBJECT = '{title} - {date}';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Mail clients ignore <style> blocks and CSS variables, so every element
+// carries its own style attribute built from this fixed light palette.
+const COLORS = {
+  primary: '#1a73e8',
+  text: '#202124',
+  secondary: '#5f6368',
+  background: '#f8f9fa',
+  card: '#ffffff',
+  border: '#dadce0',
+  error: '#ea4335'
+};
+
+const FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const TEXT_WIDTH = 72;
+
+/** A daily edition, or a weekly or monthly roll-up of them. */
+export type EmailEdition = EditionModel | RollupModel;
+
+function isRollup(edition: EmailEdition): edition is RollupModel {
+  return 'cadence' in edition;
+}
+
+/**
+ * Renders the edition model for email: table-based HTML with inline styles,
+ * and a plaintext alternative with the same content. Themes do not apply
+ * here, since mail clients would drop most of their CSS.
+ */
+export class EmailRenderer {
+  private config: NewsletterConfig;
+  private email: EmailConfig;
+
+  constructor(config: NewsletterConfig, email: EmailConfig) {
+    this.config = config;
+    this.email = email;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+
+  /** The day a daily edition is dated by, in the newsletter's time zone. */
+  private editionDate(edition: EditionModel): string {
+    return editionDateOf(new Date(edition.generatedAt), this.config.timeZone);
+  }
+
+  /** The published copy of this edition, when the site address is known. */
+  private webUrl(edition: EmailEdition): string | null {
+    if (!this.config.siteUrl) return null;
+    const file = isRollup(edition) ? edition.filename : editionFilename(this.editionDate(edition));
+    return new URL(file, this.config.siteUrl.replace(/\/?$/, '/')).toString();
+  }
+
+  private heading(edition: EmailEdition): string {
+    return isRollup(edition) ? `${edition.title} · ${edition.range}` : edition.date;
+  }
+
+  private summary(edition: EmailEdition): string {
+    const { messages } = edition;
+    if (isRollup(edition)) {
+      const { stats } = edition;
+      return formatMessage(messages.rollupSummary, {
+        count: stats.itemCount,
+        total: stats.candidateCount,
+        editions: stats.editionCount
+      });
+    }
+    const { stats } = edition;
+    const sources = new Set(edition.categories.flatMap(c => c.items.map(i => i.feedName))).size;
+    return [
+      formatMessage(messages.articlesFromSources, { count: stats.itemCount, sources }),
+      formatMessage(messages.feedsUpdated, { updated: stats.successfulFeeds, total: stats.totalFeeds })
+    ].join(' · ');
+  }
+
+  private failedFeeds(edition: EmailEdition): string[] {
+    return isRollup(edition) ? [] : edition.feeds.filter(f => f.state === 'error').map(f => f.name);
+  }
+
+  /** {date} is a roll-up's title, such as "Week 42, 2026". */
+  renderSubject(edition: EmailEdition): string {
+    return this.email.subject
+      .replace(/\{title\}/g, this.config.title)
+      .replace(/\{date\}/g, isRollup(edition) ? edition.title : this.editionDate(edition))
+      .replace(/\{count\}/g, String(edition.stats.itemCount));
+  }
+
+  private renderItemHtml(item: EditionItem, messages: Messages): string {
+    const meta = [item.feedName, item.author].filter(Boolean).map(v => this.escapeHtml(v!)).join(' · ');
+    const coveredBy = item.alsoCoveredBy.length > 0
+      ? `<p style="margin: 8px 0 0; font-size: 13px; color: ${COLORS.secondary};">${messages.alsoCoveredBy}: ${item.alsoCoveredBy
+        .map(other => `<a href="${this.escapeHtml(other.link)}" style="color: ${COLORS.primary}; text-decoration: none;">${this.escapeHtml(other.feedName)}</a>`)
+        .join(', ')}</p>`
+      : '';
+
+    return `
+              <tr>
+                <td style="padding: 16px 24px; border-bottom: 1px solid ${COLORS.border};">
+                  <a href="${this.escapeHtml(item.link)}" style="font-size: 16px; font-weight: 600; line-height: 1.4; color: ${COLORS.text}; text-decoration: none;">${this.escapeHtml(item.title)}</a>
+                  <p style="margin: 4px 0 0; font-size: 13px; color: ${COLORS.secondary};">${meta}</p>
+                  ${item.description ? `<p style="margin: 8px 0 0; font-size: 14px; line-height: 1.5; color: ${COLORS.secondary};">${this.escapeHtml(item.description)}</p>` : ''}
+                  ${coveredBy}
+                </td>
+              </tr>`;
+  }
+
+  renderHtml(edition: EmailEdition): string {
+    const { messages } = edition;
+    const webUrl = this.webUrl(edition);
+    const failedFeeds = this.failedFeeds(edition);
+
+    const sections = edition.categories.map(category => `
+          <tr>
+            <td style="padding: 24px 0 8px; font-size: 18px; font-weight: 600; color: ${COLORS.text}; border-bottom: 2px solid ${COLORS.primary};">
+              ${this.escapeHtml(category.name)} <span style="font-size: 14px; font-weight: 400; color: ${COLORS.secondary};">(${category.itemCount})</span>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 0;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background: ${COLORS.card};">
+              ${category.items.map(item => this.renderItemHtml(item, messages)).join('')}
+              </table>
+            </td>
+          </tr>`).join('');
+
+    const empty = `
+          <tr>
+            <td style="padding: 48px 24px; text-align: center; font-size: 16px; color: ${COLORS.secondary}; background: ${COLORS.card};">
+              ${messages.noNewArticles}.
+            </td>
+          </tr>`;
+
+    return `<!DOCTYPE html>
+<html lang="${this.escapeHtml(edition.lang)}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(this.renderSubject(edition))}</title>
+</head>
+<body style="margin: 0; padding: 0; background: ${COLORS.background};">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background: ${COLORS.background};">
+    <tr>
+      <td align="center" style="padding: 24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="width: 100%; max-width: 600px; font-family: ${FONT};">
+          <tr>
+            <td style="padding: 32px 24px; text-align: center; background: ${COLORS.card}; border-radius: 12px;">
+              <h1 style="margin: 0 0 8px; font-size: 26px; color: ${COLORS.primary};">${this.escapeHtml(this.config.title)}</h1>
+              ${this.config.description ? `<p style="margin: 0 0 12px; font-size: 15px; color: ${COLORS.secondary};">${this.escapeHtml(this.config.description)}</p>` : ''}
+              <p style="margin: 0; font-size: 14px; color: ${COLORS.secondary};">${this.escapeHtml(this.heading(edition))}</p>
+              <p style="margin: 8px 0 0; font-size: 13px; color: ${COLORS.secondary};">${this.escapeHtml(this.summary(edition))}</p>
+              ${webUrl ? `<p style="margin: 12px 0 0; font-size: 13px;"><a href="${this.escapeHtml(webUrl)}" style="color: ${COLORS.primary};">${messages.viewInBrowser}</a></p>` : ''}
+            </td>
+          </tr>${edition.hasItems ? sections : empty}
+          ${failedFeeds.length > 0 ? `<tr>
+            <td style="padding: 16px 0 0; font-size: 12px; color: ${COLORS.error};">
+              ${messages.notUpdated}: ${failedFeeds.map(name => this.escapeHtml(name)).join(', ')}
+            </td>
+          </tr>` : ''}
+          <tr>
+            <td style="padding: 24px 0; text-align: center; font-size: 12px; color: ${COLORS.secondary};">
+              ${messages.generatedBy} <strong>RSS Newsletter Generator</strong>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+  }
+
+  private wrap(text: string, indent: string): string {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (line && indent.length + line.length + 1 + word.length > TEXT_WIDTH) {
+        lines.push(indent + line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) lines.push(indent + line);
+
+    return lines.join('\n');
+  }
+
+  renderText(edition: EmailEdition): string {
+    const { messages } = edition;
+    const webUrl = this.webUrl(edition);
+    const failedFeeds = this.failedFeeds(edition);
+    const lines: string[] = [
+      this.config.title,
+      this.heading(edition),
+      '='.repeat(TEXT_WIDTH),
+      '',
+      this.summary(edition)
+    ];
+
+    if (webUrl) {
+      lines.push(`${messages.viewInBrowser}: ${webUrl}`);
+    }
+
+    if (!edition.hasItems) {
+      lines.push('', `${messages.noNewArticles}.`);
+    }
+
+    for (const category of edition.categories) {
+      lines.push('', '', `${category.name.toUpperCase()} (${category.itemCount})`, '-'.repeat(TEXT_WIDTH));
+
+      for (const item of category.items) {
+        lines.push('', this.wrap(`* ${item.title}`, '').replace(/\n/g, '\n  '));
+        lines.push(`  ${[item.feedName, item.author].filter(Boolean).join(' · ')}`);
+        if (item.description) {
+          lines.push(this.wrap(item.description, '  '));
+        }
+        lines.push(`  ${item.link}`);
+        if (item.alsoCoveredBy.length > 0) {
+          lines.push(this.wrap(`${messages.alsoCoveredBy}: ${item.alsoCoveredBy.map(other => other.feedName).join(', ')}`, '  '));
+        }
+      }
+    }
+
+    if (failedFeeds.length > 0) {
+      lines.push('', '', this.wrap(`${messages.notUpdated}: ${failedFeeds.join(', ')}`, ''));
+    }
+
+    lines.push('', '', '-- ', `${messages.generatedBy} RSS Newsletter Generator`, '');
+    return lines.join('\n');
+  }
+
+  render(edition: EmailEdition): RenderedEmail {
+    return {
+      subject: this.renderSubject(edition),
+      html: this.renderHtml(edition),
+      text: this.renderText(edition)
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { FetchConfig } from './types.js';
+import { DEFAULT_FETCH_CONFIG, FeedFetcher, FeedInfo, USER_AGENT } from './feedFetcher.js';
+import { classifyFetchError, httpStatusError } from './fetchErrors.js';
+
+/** Tried when the page advertises no feed, relative to the page and to the site root. */
+export const COMMON_FEED_PATHS = ['feed', 'feed/', 'rss', 'rss.xml', 'atom.xml', 'feed.xml', 'index.xml', 'feed.json'];
+
+// The link types that advertise a feed; plain application/json is usually an API
+const FEED_LINK_TYPES = new Set([
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json'
+]);
+
+export interface FeedCandidate {
+  url: string;
+  /** The URL given was a feed itself, the page linked to it, or a common path answered. */
+  source: 'given' | 'link' | 'path';
+  /** The title attribute of the page's link. */
+  label?: string;
+}
+
+export type CheckedCandidate = FeedCandidate & ({ ok: true; feed: FeedInfo } | { ok: false; error: string });
+
+export interface DiscoveryResult {
+  /** The page's address after redirects. */
+  pageUrl: string;
+  pageTitle: string;
+  /** Why the page itself could not be read; the common paths are still tried. */
+  pageError?: string;
+  candidates: CheckedCandidate[];
+}
+
+function decodeHtml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function attributesOf(tag: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name, double, single, bare] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes.set(name.toLowerCase(), decodeHtml(double ?? single ?? bare));
+  }
+  return attributes;
+}
+
+/**
+ * Finds the feeds of a website the way feed readers do: from the
+ * `<link rel="alternate">` tags of its page, and when the page advertises
+ * none that works, by trying the paths feeds are commonly published at.
+ * Every candidate is checked with the parser FeedFetcher uses.
+ */
+export class FeedDiscovery {
+  private config: FetchConfig;
+  private fetcher: FeedFetcher;
+
+  constructor(config: Partial<FetchConfig> = {}) {
+    this.config = { ...DEFAULT_FETCH_CONFIG, ...config };
+    this.fetcher = new FeedFetcher(this.config);
+  }
+
+  /** The feed links of an HTML page, resolved against its address. */
+  findFeedLinks(html: string, pageUrl: string): FeedCandidate[] {
+    const head = html.split(/<\/head\s*>/i)[0];
+    const baseHref = head.match(/<base\b[^>]*>/i);
+    const base = (baseHref && attributesOf(baseHref[0]).get('href')) || pageUrl;
+    const candidates: FeedCandidate[] = [];
+
+    for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+      const attributes = attributesOf(tag);
+      const rel = (attributes.get('rel') || '').toLowerCase().split(/\s+/);
+      const type = (attributes.get('type') || '').toLowerCase().split(';')[0].trim();
+      const href = attributes.get('href');
+      if (!rel.includes('alternate') || !FEED_LINK_TYPES.has(type) || !href) continue;
+
+      try {
+        const url = new URL(href, new URL(base, pageUrl)).toString();
+        if (!candidates.some(c => c.url === url)) {
+          candidates.push({ url, source: 'link', ...(attributes.get('title') ? { label: attributes.get('title') } : {}) });
+        }
+      } catch {
+        // An href that is not a URL cannot be followed
+      }
+    }
+
+    return candidates;
+  }
+
+  private async check(candidate: FeedCandidate): Promise<CheckedCandidate> {
+    try {
+      return { ...candidate, ok: true, feed: await this.fetcher.inspect(candidate.url) };
+    } catch (error) {
+      return { ...candidate, ok: false, error: classifyFetchError(error).message };
+    }
+  }
+
+  private async fetchPage(url: string): Promise<{ url: string; body: string; contentType: string }> {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html, application/xhtml+xml, */*' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.config.timeout)
+    });
+    if (!response.ok) {
+      throw httpStatusError(response.status, null);
+    }
+    return { url: response.url || url, body: await response.text(), contentType: response.headers.get('content-type') || '' };
+  }
+
+  async discover(siteUrl: string): Promise<DiscoveryResult> {
+    const result: DiscoveryResult = { pageUrl: siteUrl, pageTitle: '', candidates: [] };
+    if (siteUrl.startsWith('file:')) {
+      result.candidates.push(await this.check({ url: siteUrl, source: 'given' }));
+      return result;
+    }
+
+    try {
+      const page = await this.fetchPage(siteUrl);
+      result.pageUrl = page.url;
+
+      if (!/html/i.test(page.contentType) && !/^\s*(<!doctype html|<html)/i.test(page.body)) {
+        // Possibly the address of a feed rather than of a site
+        result.candidates.push(await this.check({ url: page.url, source: 'given' }));
+      } else {
+        const title = page.body.match(/<title\b[^>]*>([^<]*)<\/title\s*>/i);
+        result.pageTitle = title ? decodeHtml(title[1]).replace(/\s+/g, ' ') : '';
+        for (const candidate of this.findFeedLinks(page.body, page.url)) {
+          result.candidates.push(await this.check(candidate));
+        }
+      }
+    } catch (error) {
+      result.pageError = classifyFetchError(error).message.split('\n')[0];
+    }
+
+    if (result.candidates.some(c => c.ok)) {
+      return result;
+    }
+
+    // Relative to the page first, so a blog under /blog/ finds /blog/feed
+    const tried = new Set(result.candidates.map(c => c.url));
+    const bases = [result.pageUrl.replace(/[^/]*$/, ''), new URL('/', result.pageUrl).toString()];
+    for (const base of bases) {
+      for (const path of COMMON_FEED_PATHS) {
+        const url = new URL(path, base).toString();
+        if (tried.has(url)) continue;
+        tried.add(url);
+
+        const checked = await this.check({ url, source: 'path' });
+        // Only paths that answered with a feed are reported, and a feed
+        // served at several of them (/feed and /feed/) only once
+        if (checked.ok && !result.candidates.some(c => c.ok && c.feed.title === checked.feed.title && c.feed.itemCount === checked.feed.itemCount)) {
+          result.candidates.push(checked);
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,31 +1,98 @@
 import Parser from 'rss-parser';
 import crypto from 'crypto';
-import { FeedConfig, FeedItem, FetchResult } from './types.js';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  FeedCacheEntry,
+  FeedCacheUpdate,
+  FeedConfig,
+  FeedItem,
+  FeedRequestConfig,
+  FeedSourceType,
+  FetchConfig,
+  FetchResult
+} from './types.js';
+import { DatabaseManager } from './database.js';
+import { FetchPool } from './fetchPool.js';
+import { FeedFetchError, classifyFetchError, httpStatusError, redactFetchError } from './fetchErrors.js';
+import { fetchThroughProxy } from './httpProxy.js';
+import { SourceDocument, SourceEntry, parseJsonFeed, readMarkdownDirectory } from './feedSources.js';
+
+export const DEFAULT_FETCH_CONFIG: FetchConfig = {
+  timeout: 30000,
+  concurrency: 8,
+  perHostConcurrency: 2,
+  perHostDelayMs: 500,
+  retries: 2,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30000
+};
+
+export const USER_AGENT = 'RSS-Newsletter-Bot/1.0 (GitHub Actions)';
+
+/** What inspect() found at a feed URL. */
+export interface FeedInfo {
+  type: FeedSourceType;
+  format: 'RSS' | 'Atom' | 'JSON Feed';
+  title: string;
+  description: string;
+  itemCount: number;
+}
+
+const REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': USER_AGENT,
+  'Accept': 'application/rss+xml, application/xml, text/xml, */*'
+};
+
+/** A feed's request settings with its credentials read from the environment. */
+interface PreparedRequest {
+  headers: Record<string, string>;
+  timeout: number;
+  proxy?: string;
+  /** The values to mask in error messages. */
+  secrets: string[];
+}
+
+function readSecret(variable: string): string {
+  const value = process.env[variable];
+  if (!value) {
+    throw new FeedFetchError('auth', `Environment variable ${variable} is not set`);
+  }
+  return value;
+}
+
+/** Sets `name` in place of any spelling of it already in `headers`. */
+function setHeader(headers: Record<string, string>, name: string, value: string): void {
+  for (const existing of Object.keys(headers)) {
+    if (existing.toLowerCase() === name.toLowerCase()) {
+      delete headers[existing];
+    }
+  }
+  headers[name] = value;
+}
 
 export class FeedFetcher {
   private parser: Parser;
-  private timeout: number;
+  private config: FetchConfig;
+  private db: DatabaseManager | null;
 
-  constructor(timeout: number = 30000) {
+  constructor(config: Partial<FetchConfig> = {}, db: DatabaseManager | null = null) {
+    this.config = { ...DEFAULT_FETCH_CONFIG, ...config };
+    // The parser only parses; downloads go through download()
     this.parser = new Parser({
-      timeout: timeout,
-      headers: {
-        'User-Agent': 'RSS-Newsletter-Bot/1.0 (GitHub Actions)',
-        'Accept': 'application/rss+xml, application/xml, text/xml, */*'
-      },
       customFields: {
         item: ['media:content', 'content:encoded', 'dc:creator']
       }
     });
-    this.timeout = timeout;
+    this.db = db;
   }
 
-  private generateItemId(item: Parser.Item, feedName: string): string {
-    const uniqueString = item.guid || item.link || `${feedName}-${item.title}-${item.pubDate}`;
+  private generateItemId(entry: SourceEntry, feedName: string): string {
+    const uniqueString = entry.id || entry.link || `${feedName}-${entry.title}-${entry.published}`;
     return crypto.createHash('md5').update(uniqueString).digest('hex');
   }
 
-  private sanitizeHtml(html: string | undefined): string {
+  private sanitizeHtml(html: string | undefined, maxLength: number = 300): string {
     if (!html) return '';
 
     // Remove HTML tags but keep text content
@@ -43,59 +110,303 @@ export class FeedFetcher {
       .trim();
 
     // Limit description length
-    if (text.length > 300) {
-      text = text.substring(0, 297) + '...';
+    if (text.length > maxLength) {
+      text = text.substring(0, maxLength - 3) + '...';
     }
 
     return text;
   }
 
-  async fetchFeed(feedConfig: FeedConfig): Promise<FetchResult> {
-    const { name, url, category } = feedConfig;
+  private hashBody(body: string): string {
+    return crypto.createHash('sha256').update(body).digest('hex');
+  }
+
+  /**
+   * The headers, timeout and proxy of a feed's `request` settings. Throws
+   * an 'auth' error naming the variable when a credential is not set.
+   */
+  private prepareRequest(request: FeedRequestConfig = {}): PreparedRequest {
+    const headers = { ...REQUEST_HEADERS };
+    const secrets: string[] = [];
+
+    if (request.userAgent) {
+      setHeader(headers, 'User-Agent', request.userAgent);
+    }
+    for (const [name, value] of Object.entries(request.headers || {})) {
+      setHeader(headers, name, value);
+    }
+    for (const [name, variable] of Object.entries(request.headersFromEnv || {})) {
+      const value = readSecret(variable);
+      setHeader(headers, name, value);
+      secrets.push(value);
+    }
+
+    const { auth } = request;
+    if (auth?.type === 'basic') {
+      const user = readSecret(auth.userEnv);
+      const password = readSecret(auth.passwordEnv);
+      const encoded = Buffer.from(`${user}:${password}`).toString('base64');
+      setHeader(headers, 'Authorization', `Basic ${encoded}`);
+      secrets.push(password, encoded);
+    } else if (auth?.type === 'bearer') {
+      const token = readSecret(auth.tokenEnv);
+      setHeader(headers, 'Authorization', `Bearer ${token}`);
+      secrets.push(token);
+    }
 
+    return {
+      headers,
+      timeout: request.timeout ?? this.config.timeout,
+      ...(request.proxy ? { proxy: request.proxy } : {}),
+      secrets
+    };
+  }
+
+  /**
+   * Downloads the feed document, sending the validators stored from the
+   * previous run. Returns null when the server answers 304 Not Modified.
+   */
+  private async download(
+    url: string,
+    cached: FeedCacheEntry | null,
+    request: PreparedRequest
+  ): Promise<{ body: string; etag: string | null; lastModified: string | null } | null> {
+    const headers = { ...request.headers };
+
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const signal = AbortSignal.timeout(request.timeout);
+    const response = request.proxy
+      ? await fetchThroughProxy(url, request.proxy, { headers, signal })
+      : await fetch(url, { headers, redirect: 'follow', signal });
+
+    if (response.status === 304) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw httpStatusError(response.status, response.headers.get('retry-after'));
+    }
+
+    return {
+      body: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified')
+    };
+  }
+
+  private getRetryDelay(attempt: number, error: FeedFetchError): number {
+    // Exponential backoff with jitter, so retries against one host spread out
+    const backoff = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * 2 ** attempt);
+    const jittered = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    return Math.max(jittered, error.retryAfterMs ?? 0);
+  }
+
+  private async downloadWithRetry(
+    name: string,
+    url: string,
+    cached: FeedCacheEntry | null,
+    request: PreparedRequest
+  ): ReturnType<FeedFetcher['download']> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.download(url, cached, request);
+      } catch (error) {
+        const fetchError = redactFetchError(classifyFetchError(error), request.secrets);
+        if (!fetchError.retryable || attempt >= this.config.retries) {
+          throw fetchError;
+        }
+
+        // Do not wait longer than the configured ceiling for a Retry-After
+        const wait = this.getRetryDelay(attempt, fetchError);
+        if (wait > this.config.retryMaxDelayMs) {
+          throw fetchError;
+        }
+
+        console.warn(`  Attempt ${attempt + 1} for ${name} failed (${fetchError.kind}: ${fetchError.message}), retrying in ${wait}ms`);
+        await this.delay(wait);
+      }
+    }
+  }
+
+  private async parseFeed(body: string): Promise<SourceDocument> {
+    const trimmed = body.trimStart();
+    if (!trimmed) {
+      throw new FeedFetchError('invalid-content', 'Empty response body');
+    }
+    if (/^<!doctype html|^<html/i.test(trimmed)) {
+      throw new FeedFetchError('invalid-content', 'Received an HTML page instead of a feed');
+    }
+    if (/^[{[]/.test(trimmed)) {
+      throw new FeedFetchError('invalid-content', 'Received JSON instead of an RSS or Atom feed; set "type": "json" for a JSON Feed');
+    }
+
+    let feed: Parser.Output<Record<string, string>>;
     try {
-      console.log(`Fetching feed: ${name} (${url})`);
+      feed = await this.parser.parseString(body);
+    } catch (error) {
+      // xml2js appends line and column details on separate lines
+      const message = error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+      const kind = /not recognized/i.test(message) ? 'invalid-content' : 'parse';
+      throw new FeedFetchError(kind, message);
+    }
+
+    return {
+      title: feed.title?.trim() || '',
+      description: feed.description?.trim() || '',
+      entries: feed.items.map(item => ({
+        id: item.guid,
+        title: item.title,
+        link: item.link,
+        content: item['content:encoded'] || item.content || item.summary,
+        summary: item.contentSnippet || item.content || item.summary,
+        published: item.pubDate,
+        author: item.creator || item.author
+      }))
+    };
+  }
+
+  private async parseDocument(body: string, type: FeedSourceType): Promise<SourceDocument> {
+    return type === 'json' ? parseJsonFeed(body) : this.parseFeed(body);
+  }
+
+  /**
+   * Reads the entries of a feed from its source: a local file or directory,
+   * or a download. The document is null when a downloaded feed has not
+   * changed since the last run, by the server's validators or by content.
+   * The cache is only read here; the caller saves `cacheUpdate` once the
+   * items are published, so a run that fails first does not lose them.
+   */
+  private async readSource(feedConfig: FeedConfig): Promise<{ document: SourceDocument | null; cacheUpdate?: FeedCacheUpdate }> {
+    const { name, url } = feedConfig;
+    const type = feedConfig.type || 'rss';
+
+    if (type === 'markdown') {
+      return { document: readMarkdownDirectory(fileURLToPath(url)) };
+    }
+    if (url.startsWith('file:')) {
+      return { document: await this.parseDocument(fs.readFileSync(fileURLToPath(url), 'utf-8'), type) };
+    }
+
+    const cached = this.db ? this.db.getFeedCache(url) : null;
+    const response = await this.downloadWithRetry(name, url, cached, this.prepareRequest(feedConfig.request));
+
+    if (!response) {
+      console.log(`  Not modified since last run: ${name}`);
+      return { document: null };
+    }
+
+    // Servers without validators may still return an identical document
+    const bodyHash = this.hashBody(response.body);
+    const cacheUpdate: FeedCacheUpdate | undefined = this.db
+      ? { url, feedName: name, etag: response.etag, lastModified: response.lastModified, bodyHash }
+      : undefined;
+
+    if (cached && cached.bodyHash === bodyHash) {
+      console.log(`  Unchanged content since last run: ${name}`);
+      return { document: null, cacheUpdate };
+    }
+
+    // Only remember validators once the document parsed successfully
+    return { document: await this.parseDocument(response.body, type), cacheUpdate };
+  }
 
-      const feed = await this.parser.parseURL(url);
-      const items: FeedItem[] = [];
+  /**
+   * Downloads (or reads, for a file: URL) and parses `url` once, without
+   * retries or the cache, to check that it is a feed this fetcher can read.
+   * JSON is read as a JSON Feed. Throws a FeedFetchError when it is not.
+   */
+  async inspect(url: string): Promise<FeedInfo> {
+    try {
+      const body = url.startsWith('file:')
+        ? fs.readFileSync(fileURLToPath(url), 'utf-8')
+        : (await this.download(url, null, this.prepareRequest()))!.body;
+      const type: FeedSourceType = /^\s*[{[]/.test(body) ? 'json' : 'rss';
+      const feed = await this.parseDocument(body, type);
+      return {
+        type,
+        format: type === 'json' ? 'JSON Feed' : /<feed[\s>]/.test(body) ? 'Atom' : 'RSS',
+        title: feed.title,
+        description: feed.description,
+        itemCount: feed.entries.length
+      };
+    } catch (error) {
+      throw classifyFetchError(error);
+    }
+  }
 
-      for (const item of feed.items) {
-        if (!item.link) continue;
+  private toFeedItem(entry: SourceEntry & { link: string }, feedConfig: FeedConfig, feed: SourceDocument): FeedItem {
+    return {
+      id: this.generateItemId(entry, feedConfig.name),
+      title: entry.title || 'Untitled',
+      link: entry.link,
+      description: this.sanitizeHtml(entry.summary),
+      content: this.sanitizeHtml(entry.content, Infinity),
+      pubDate: entry.published ? new Date(entry.published) : new Date(),
+      feedName: feedConfig.name,
+      category: feedConfig.category,
+      author: entry.author || feed.title || undefined
+    };
+  }
+
+  async fetchFeed(feedConfig: FeedConfig): Promise<FetchResult> {
+    const { name, url } = feedConfig;
+
+    try {
+      console.log(`Fetching feed: ${name} (${url})`);
 
-        const feedItem: FeedItem = {
-          id: this.generateItemId(item, name),
-          title: item.title || 'Untitled',
-          link: item.link,
-          description: this.sanitizeHtml(item.contentSnippet || item.content || item.summary),
-          pubDate: item.pubDate ? new Date(item.pubDate) : new Date(),
+      const { document: feed, cacheUpdate } = await this.readSource(feedConfig);
+      if (!feed) {
+        return {
           feedName: name,
-          category: category,
-          author: item.creator || item.author || feed.title
+          success: true,
+          items: [],
+          fromCache: true,
+          cacheUpdate
         };
-
-        items.push(feedItem);
       }
 
+      const items = feed.entries
+        .filter((entry): entry is SourceEntry & { link: string } => !!entry.link)
+        .map(entry => this.toFeedItem(entry, feedConfig, feed));
+
       console.log(`  Successfully fetched ${items.length} items from ${name}`);
 
       return {
         feedName: name,
         success: true,
-        items
+        items,
+        fromCache: false,
+        cacheUpdate
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`  Failed to fetch ${name}: ${errorMessage}`);
+      const fetchError = classifyFetchError(error);
+      console.error(`  Failed to fetch ${name} (${fetchError.kind}): ${fetchError.message}`);
 
       return {
         feedName: name,
         success: false,
         items: [],
-        error: errorMessage
+        fromCache: false,
+        error: fetchError.message,
+        errorKind: fetchError.kind
       };
     }
   }
 
+  private getHost(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  }
+
   async fetchAllFeeds(
     feeds: FeedConfig[],
     maxItemsPerFeed: number
@@ -103,14 +414,15 @@ export class FeedFetcher {
     const enabledFeeds = feeds.filter(f => f.enabled);
     console.log(`\nFetching ${enabledFeeds.length} enabled feeds...\n`);
 
-    const results: FetchResult[] = [];
-    const allItems: FeedItem[] = [];
-
-    // Process feeds sequentially to avoid rate limiting
-    for (const feed of enabledFeeds) {
-      const result = await this.fetchFeed(feed);
-      results.push(result);
+    // Feeds on different hosts download in parallel; each host is rate limited
+    const pool = new FetchPool(this.config);
+    const results = await Promise.all(
+      enabledFeeds.map(feed => pool.run(this.getHost(feed.url), () => this.fetchFeed(feed)))
+    );
 
+    // Collect items in config order so the output does not depend on timing
+    const allItems: FeedItem[] = [];
+    for (const result of results) {
       if (result.success) {
         // Sort by date and take only the most recent items per feed
         const sortedItems = result.items
@@ -119,9 +431,6 @@ export class FeedFetcher {
 
         allItems.push(...sortedItems);
       }
-
-      // Small delay between requests to be respectful
-      await this.delay(500);
     }
 
     return { results, allItems };
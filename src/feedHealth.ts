@@ -0,0 +1,90 @@
+import { FeedHealth, FeedHealthStatus, HealthConfig } from './types.js';
+import { DatabaseManager } from './database.js';
+
+export const DEFAULT_HEALTH_CONFIG: HealthConfig = {
+  window: 20,
+  degradedBelow: 0.8,
+  quarantineAfter: 5,
+  probeIntervalDays: 3
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Derives per-feed health from the feed_stats history. Feeds that fail
+ * `quarantineAfter` times in a row are quarantined: they are only fetched
+ * again every `probeIntervalDays` until a probe succeeds.
+ */
+export class FeedHealthMonitor {
+  private db: DatabaseManager;
+  private config: HealthConfig;
+
+  constructor(db: DatabaseManager, config: Partial<HealthConfig> = {}) {
+    this.db = db;
+    this.config = { ...DEFAULT_HEALTH_CONFIG, ...config };
+  }
+
+  getHealth(feedName: string): FeedHealth {
+    const history = this.db.getFeedStatsHistory(feedName, this.config.window);
+    const streak = this.db.getFailuresSinceLastSuccess(feedName);
+
+    const consecutiveFailures = streak.length;
+    const successes = history.filter(r => r.success).length;
+    const successRate = history.length > 0 ? successes / history.length : null;
+    const latest = history[0];
+    const lastFailure = history.find(r => !r.success);
+
+    let status: FeedHealthStatus = 'healthy';
+    let since: string | null = null;
+
+    if (consecutiveFailures >= this.config.quarantineAfter) {
+      status = 'quarantined';
+      since = streak[this.config.quarantineAfter - 1].fetchDate;
+    } else if (consecutiveFailures > 0) {
+      status = 'degraded';
+      since = streak[0].fetchDate;
+    } else if (successRate !== null && successRate < this.config.degradedBelow) {
+      status = 'degraded';
+      since = history.filter(r => !r.success).pop()!.fetchDate;
+    } else if (history.length > 0) {
+      // Healthy since the first success after the most recent failure
+      const recovered = lastFailure
+        ? history.filter(r => r.fetchDate > lastFailure.fetchDate).pop()
+        : history[history.length - 1];
+      since = recovered ? recovered.fetchDate : null;
+    }
+
+    let nextProbe: string | null = null;
+    if (status === 'quarantined' && latest) {
+      nextProbe = new Date(
+        new Date(latest.fetchDate).getTime() + this.config.probeIntervalDays * DAY_MS
+      ).toISOString();
+    }
+
+    return {
+      feedName,
+      status,
+      since,
+      consecutiveFailures,
+      successRate,
+      lastAttempt: latest ? latest.fetchDate : null,
+      lastError: lastFailure ? lastFailure.errorMessage : null,
+      lastErrorKind: lastFailure ? lastFailure.errorKind : null,
+      nextProbe
+    };
+  }
+
+  getAllHealth(feedNames: string[]): FeedHealth[] {
+    return feedNames.map(name => this.getHealth(name));
+  }
+
+  /**
+   * Quarantined feeds are skipped until their next probe is due.
+   */
+  shouldFetch(health: FeedHealth, now: Date = new Date()): boolean {
+    if (health.status !== 'quarantined' || !health.nextProbe) {
+      return true;
+    }
+    return new Date(health.nextProbe).getTime() <= now.getTime();
+  }
+}
@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+import { FeedFetchError } from './fetchErrors.js';
+
+/**
+ * One entry of a feed as its source describes it. FeedFetcher turns every
+ * source's entries into FeedItems the same way, so RSS, JSON Feed and
+ * Markdown items are deduplicated, scored and rendered alike.
+ */
+export interface SourceEntry {
+  id?: string;
+  title?: string;
+  link?: string;
+  /** The full text, as HTML or plain text. */
+  content?: string;
+  /** A shorter text for the description, as HTML or plain text. */
+  summary?: string;
+  /** A date string that Date can parse. */
+  published?: string;
+  author?: string;
+}
+
+export interface SourceDocument {
+  title: string;
+  description: string;
+  entries: SourceEntry[];
+}
+
+const JSON_FEED_VERSION = 'https://jsonfeed.org/version/1';
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+const UNTITLED_LENGTH = 80;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** JSON Feed 1.1 lists `authors`; 1.0 had a single `author`. */
+function authorOf(object: JsonObject): string | undefined {
+  const authors = Array.isArray(object.authors) ? object.authors : [object.author];
+  return authors.map(author => isObject(author) ? stringOf(author.name) : undefined).find(Boolean);
+}
+
+/** The start of `text`, for entries that have no title of their own. */
+function headline(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > UNTITLED_LENGTH ? `${line.slice(0, UNTITLED_LENGTH - 3)}...` : line || undefined;
+}
+
+/** Reads a JSON Feed 1.0 or 1.1 document. */
+export function parseJsonFeed(body: string): SourceDocument {
+  let feed: unknown;
+  try {
+    feed = JSON.parse(body);
+  } catch (error) {
+    throw new FeedFetchError('parse', error instanceof Error ? error.message : 'Invalid JSON');
+  }
+
+  if (!isObject(feed) || typeof feed.version !== 'string' || !feed.version.startsWith(JSON_FEED_VERSION)) {
+    throw new FeedFetchError('invalid-content', 'Not a JSON Feed (no jsonfeed.org version 1 "version")');
+  }
+  if (!Array.isArray(feed.items)) {
+    throw new FeedFetchError('invalid-content', 'The JSON Feed has no "items" array');
+  }
+
+  const feedAuthor = authorOf(feed);
+  return {
+    title: stringOf(feed.title) || '',
+    description: stringOf(feed.description) || '',
+    entries: feed.items.filter(isObject).map(item => {
+      const text = stringOf(item.content_text);
+      const html = stringOf(item.content_html);
+      return {
+        id: item.id === undefined || item.id === null ? undefined : String(item.id),
+        // Titles are optional in JSON Feed, and microblogs leave them out
+        title: stringOf(item.title) || headline(stringOf(item.summary) || text),
+        link: stringOf(item.url) || stringOf(item.external_url),
+        content: html || text,
+        summary: stringOf(item.summary) || text || html,
+        published: stringOf(item.date_published) || stringOf(item.date_modified),
+        author: authorOf(item) || feedAuthor
+      };
+    })
+  };
+}
+
+/**
+ * Splits off YAML-style front matter between "---" lines. Only flat
+ * `key: value` pairs are read, which is all a feed entry needs. Null when
+ * the text has no front matter.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string>; body: string } | null {
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return null;
+
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const value = pair[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    data[pair[1].toLowerCase()] = value;
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+/** Markdown reduced to its text: no markup, link targets or code fences. */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+\.\s+)/gm, '')
+    .replace(/(\*\*|\*|`)(.+?)\1/g, '$2')
+    // Underscores inside words, as in snake_case, are not emphasis
+    .replace(/(^|\W)(__?)(.+?)\2(?!\w)/g, '$1$3')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The Markdown files under `dir`, relative to it, in subdirectories too. */
+function findMarkdownFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(prefix, entry.name);
+    if (entry.isDirectory()) return findMarkdownFiles(dir, file);
+    return entry.isFile() && MARKDOWN_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) ? [file] : [];
+  });
+}
+
+/**
+ * Reads every Markdown file with front matter under `dir`, as one entry
+ * each. Files without front matter, such as a README, are skipped, and so
+ * are entries marked `draft: true`. An entry needs a `link` or `url` to
+ * point readers to; files without one are skipped with a warning.
+ */
+export function readMarkdownDirectory(dir: string): SourceDocument {
+  const files = findMarkdownFiles(dir).sort();
+
+  const entries: SourceEntry[] = [];
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    const parsed = parseFrontMatter(fs.readFileSync(filePath, 'utf-8'));
+    if (!parsed || parsed.data.draft === 'true') continue;
+
+    const { data, body } = parsed;
+    const link = data.link || data.url;
+    if (!link) {
+      console.warn(`  Skipping ${filePath}: its front matter has no "link" or "url"`);
+      continue;
+    }
+
+    const heading = body.match(/^#\s+(.+)$/m);
+    const datedName = path.basename(file).match(/^(\d{4}-\d{2}-\d{2})/);
+    const text = markdownToText(heading ? body.replace(heading[0], '') : body);
+
+    entries.push({
+      id: data.id,
+      title: data.title || heading?.[1].trim() || path.basename(file, path.extname(file)),
+      link,
+      content: text,
+      summary: data.summary || data.description || text,
+      published: data.date || datedName?.[1] || fs.statSync(filePath).mtime.toISOString(),
+      author: data.author
+    });
+  }
+
+  return { title: path.basename(dir), description: '', entries };
+}
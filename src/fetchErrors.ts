@@ -0,0 +1,109 @@
+import { FetchErrorKind } from './types.js';
+
+// Socket-level failures that usually succeed on a second attempt
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+export class FeedFetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: FetchErrorKind,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'FeedFetchError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an
+ * HTTP date.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export function httpStatusError(status: number, retryAfter: string | null): FeedFetchError {
+  const retryable = status === 408 || status === 429 || status >= 500;
+  return new FeedFetchError('http-status', `Status code ${status}`, {
+    retryable,
+    status,
+    retryAfterMs: status === 429 || status === 503 ? parseRetryAfter(retryAfter) : undefined
+  });
+}
+
+/**
+ * The same error with every secret in its message masked. Some errors quote
+ * what was sent, such as fetch() rejecting an invalid header value, and the
+ * message ends up in logs, the database and the Feed Status section.
+ */
+export function redactFetchError(error: FeedFetchError, secrets: string[]): FeedFetchError {
+  const message = secrets
+    .filter(Boolean)
+    .reduce((text, secret) => text.split(secret).join('[redacted]'), error.message);
+  if (message === error.message) {
+    return error;
+  }
+  return new FeedFetchError(error.kind, message, {
+    retryable: error.retryable,
+    status: error.status,
+    retryAfterMs: error.retryAfterMs
+  });
+}
+
+/**
+ * Maps any error thrown while downloading a feed to a FeedFetchError.
+ */
+export function classifyFetchError(error: unknown): FeedFetchError {
+  if (error instanceof FeedFetchError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      return new FeedFetchError('timeout', 'Request timed out', { retryable: true });
+    }
+
+    // fetch() reports socket problems as a TypeError with the system error as cause
+    const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+    const code = cause?.code || (error as { code?: string }).code;
+    if (code || error.message === 'fetch failed') {
+      const message = cause?.message || error.message;
+      return new FeedFetchError('network', code ? `${code}: ${message}` : message, {
+        retryable: !!code && TRANSIENT_NETWORK_CODES.has(code)
+      });
+    }
+
+    return new FeedFetchError('network', error.message);
+  }
+
+  return new FeedFetchError('network', 'Unknown error');
+}
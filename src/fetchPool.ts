@@ -0,0 +1,94 @@
+export interface FetchPoolOptions {
+  concurrency: number;
+  perHostConcurrency: number;
+  perHostDelayMs: number;
+}
+
+interface QueuedTask {
+  host: string;
+  start: () => void;
+}
+
+/**
+ * Runs tasks with a global concurrency limit, a per-host concurrency limit
+ * and a minimum spacing between request starts against the same host.
+ * Tasks for the same host start in the order they were queued.
+ */
+export class FetchPool {
+  private options: FetchPoolOptions;
+  private active = 0;
+  private activePerHost = new Map<string, number>();
+  private lastStartPerHost = new Map<string, number>();
+  private queue: QueuedTask[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: FetchPoolOptions) {
+    this.options = {
+      concurrency: Math.max(1, options.concurrency),
+      perHostConcurrency: Math.max(1, options.perHostConcurrency),
+      perHostDelayMs: Math.max(0, options.perHostDelayMs)
+    };
+  }
+
+  run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        host,
+        start: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => this.release(host));
+        }
+      });
+      this.schedule();
+    });
+  }
+
+  private release(host: string): void {
+    this.active--;
+    this.activePerHost.set(host, (this.activePerHost.get(host) || 1) - 1);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    const now = Date.now();
+    let nextWakeup = Infinity;
+    let i = 0;
+
+    while (i < this.queue.length && this.active < this.options.concurrency) {
+      const { host, start } = this.queue[i];
+      const hostActive = this.activePerHost.get(host) || 0;
+
+      if (hostActive >= this.options.perHostConcurrency) {
+        i++;
+        continue;
+      }
+
+      const lastStart = this.lastStartPerHost.get(host);
+      const wait = lastStart === undefined ? 0 : lastStart + this.options.perHostDelayMs - now;
+      if (wait > 0) {
+        nextWakeup = Math.min(nextWakeup, wait);
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.active++;
+      this.activePerHost.set(host, hostActive + 1);
+      this.lastStartPerHost.set(host, now);
+      start();
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (nextWakeup !== Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.schedule();
+      }, nextWakeup);
+    }
+  }
+}
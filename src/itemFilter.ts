@@ -0,0 +1,127 @@
+import { FeedConfig, FeedItem, FilterField, FilterRule, FilterRuleReport, MatchRule } from './types.js';
+
+const DEFAULT_FIELDS: FilterField[] = ['title', 'description'];
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getHost(link: string): string | null {
+  try {
+    return new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the match test shared by filter and scoring rules. `source`
+ * names the rule in errors, e.g. `"No ads" (global)`.
+ */
+export function createMatcher(rule: MatchRule, source: string): (item: FeedItem) => boolean {
+  const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+  const flags = rule.caseSensitive ? '' : 'i';
+  const fields = rule.fields && rule.fields.length > 0 ? rule.fields : DEFAULT_FIELDS;
+
+  switch (rule.type) {
+    case 'keyword':
+    case 'regex': {
+      const patterns = values.map(value => {
+        // Keywords match whole words, even when they start or end with punctuation
+        const pattern = rule.type === 'keyword' ? `(?<!\\w)${escapeRegex(value)}(?!\\w)` : value;
+        try {
+          return new RegExp(pattern, flags);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(`Invalid rule ${source}: ${message}`);
+        }
+      });
+      return item => fields.some(field => {
+        const text = item[field] || '';
+        return patterns.some(pattern => pattern.test(text));
+      });
+    }
+    case 'author': {
+      const authors = values.map(value => (rule.caseSensitive ? value : value.toLowerCase()).trim());
+      return item => {
+        if (!item.author) return false;
+        const author = (rule.caseSensitive ? item.author : item.author.toLowerCase()).trim();
+        return authors.includes(author);
+      };
+    }
+    case 'domain': {
+      const domains = values.map(value => value.toLowerCase().replace(/^www\./, ''));
+      return item => {
+        const host = getHost(item.link);
+        return !!host && domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+      };
+    }
+    default:
+      throw new Error(`Unknown rule type "${(rule as MatchRule).type}" in ${source}`);
+  }
+}
+
+interface CompiledRule {
+  rule: FilterRule;
+  label: string;
+  scope: string;
+  matches: (item: FeedItem) => boolean;
+  dropped: number;
+}
+
+/**
+ * Applies include/exclude rules from the config. Global rules run first,
+ * then the rules of the item's feed. An item is dropped by the first rule
+ * it fails: an include rule it does not match, or an exclude rule it does.
+ */
+export class ItemFilter {
+  private globalRules: CompiledRule[];
+  private feedRules = new Map<string, CompiledRule[]>();
+  private dropped: { item: FeedItem; rule: string; scope: string }[] = [];
+
+  constructor(globalRules: FilterRule[] = [], feeds: FeedConfig[] = []) {
+    this.globalRules = globalRules.map(rule => this.compile(rule, 'global'));
+    for (const feed of feeds) {
+      if (feed.filters && feed.filters.length > 0) {
+        this.feedRules.set(feed.name, feed.filters.map(rule => this.compile(rule, feed.name)));
+      }
+    }
+  }
+
+  private describe(rule: FilterRule): string {
+    const values = Array.isArray(rule.value) ? rule.value.join(', ') : rule.value;
+    return rule.name || `${rule.action} ${rule.type}: ${values}`;
+  }
+
+  private compile(rule: FilterRule, scope: string): CompiledRule {
+    const label = this.describe(rule);
+    return { rule, label, scope, matches: createMatcher(rule, `"${label}" (${scope})`), dropped: 0 };
+  }
+
+  private rejects(rule: CompiledRule, item: FeedItem): boolean {
+    const matched = rule.matches(item);
+    return rule.rule.action === 'include' ? !matched : matched;
+  }
+
+  apply(items: FeedItem[]): FeedItem[] {
+    return items.filter(item => {
+      const rules = [...this.globalRules, ...(this.feedRules.get(item.feedName) || [])];
+      const failed = rules.find(rule => this.rejects(rule, item));
+      if (failed) {
+        failed.dropped++;
+        this.dropped.push({ item, rule: failed.label, scope: failed.scope });
+        return false;
+      }
+      return true;
+    });
+  }
+
+  getDroppedItems(): { item: FeedItem; rule: string; scope: string }[] {
+    return [...this.dropped];
+  }
+
+  getReport(): FilterRuleReport[] {
+    const all = [...this.globalRules, ...Array.from(this.feedRules.values()).flat()];
+    return all.map(rule => ({ rule: rule.label, scope: rule.scope, dropped: rule.dropped }));
+  }
+}
@@ -0,0 +1,102 @@
+import { FeedConfig, FeedItem, ScoreBreakdown, ScoringConfig, ScoringRule } from './types.js';
+import { createMatcher } from './itemFilter.js';
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  enabled: true,
+  recencyWeight: 1,
+  recencyHalfLifeHours: 24,
+  coverageWeight: 0.5,
+  descriptionWeight: 0.25,
+  descriptionLength: 200,
+  rules: []
+};
+
+interface CompiledScoringRule {
+  label: string;
+  points: number;
+  matches: (item: FeedItem) => boolean;
+}
+
+/**
+ * Orders items by score, falling back to publication date. Items that were
+ * never scored all count as 0, so without scoring this is date order.
+ */
+export function compareItems(a: FeedItem, b: FeedItem): number {
+  return (b.score ?? 0) - (a.score ?? 0) || new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Scores items for ranking. The signals are added up and the sum is
+ * multiplied by the feed's weight:
+ *
+ *   recency      recencyWeight, halved every recencyHalfLifeHours
+ *   coverage     coverageWeight per other source covering the story
+ *   description  up to descriptionWeight for descriptionLength characters
+ *   rules        the points of every matching keyword, regex, author or domain rule
+ */
+export class ItemScorer {
+  private config: ScoringConfig;
+  private weights: Map<string, number>;
+  private rules: CompiledScoringRule[];
+
+  constructor(config: Partial<ScoringConfig> = {}, feeds: FeedConfig[] = []) {
+    this.config = { ...DEFAULT_SCORING_CONFIG, ...config };
+    this.weights = new Map(feeds.map(f => [f.name, f.weight ?? 1]));
+    this.rules = this.config.rules.map(rule => this.compile(rule));
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  private compile(rule: ScoringRule): CompiledScoringRule {
+    const values = Array.isArray(rule.value) ? rule.value.join(', ') : rule.value;
+    const label = rule.name || `${rule.type}: ${values}`;
+    return { label, points: rule.points, matches: createMatcher(rule, `"${label}" (scoring)`) };
+  }
+
+  score(item: FeedItem, now: Date = new Date()): ScoreBreakdown {
+    const { config } = this;
+    const ageHours = Math.max(0, (now.getTime() - new Date(item.pubDate).getTime()) / 3600000);
+
+    const recency = config.recencyWeight * Math.pow(0.5, ageHours / config.recencyHalfLifeHours);
+    const coverage = config.coverageWeight * (item.alsoCoveredBy?.length || 0);
+    const description = config.descriptionWeight * Math.min(1, (item.description || '').length / config.descriptionLength);
+    const rules = this.rules
+      .filter(rule => rule.matches(item))
+      .map(rule => ({ rule: rule.label, points: rule.points }));
+
+    const feedWeight = this.weights.get(item.feedName) ?? 1;
+    const sum = recency + coverage + description + rules.reduce((total, r) => total + r.points, 0);
+
+    return {
+      total: round(sum * feedWeight),
+      feedWeight,
+      recency: round(recency),
+      coverage: round(coverage),
+      description: round(description),
+      rules
+    };
+  }
+
+  /**
+   * Scores every item and sets `item.score`, which the selection stage and
+   * the category sections sort by. Does nothing when scoring is disabled.
+   */
+  scoreAll(items: FeedItem[], now: Date = new Date()): Map<FeedItem, ScoreBreakdown> {
+    const breakdowns = new Map<FeedItem, ScoreBreakdown>();
+    if (!this.config.enabled) return breakdowns;
+
+    for (const item of items) {
+      const breakdown = this.score(item, now);
+      item.score = breakdown.total;
+      breakdowns.set(item, breakdown);
+    }
+
+    return breakdowns;
+  }
+}
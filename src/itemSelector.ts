@@ -0,0 +1,154 @@
+import {
+  CategoryShortfall,
+  CutItem,
+  FeedConfig,
+  FeedItem,
+  SelectionConfig,
+  SelectionCutReason
+} from './types.js';
+import { compareItems } from './itemScorer.js';
+
+export const DEFAULT_SELECTION_CONFIG: SelectionConfig = {
+  strategy: 'round-robin',
+  maxFeedShare: 1,
+  categories: {}
+};
+
+export interface SelectionResult {
+  selected: FeedItem[];
+  cut: CutItem[];
+  shortfalls: CategoryShortfall[];
+}
+
+/**
+ * Spends the maxTotalItems budget across sources. Category minimums are
+ * filled first, then the rest of the budget; in both passes feeds take turns
+ * (optionally in proportion to their weight) instead of the best-ranked
+ * items winning outright, and no feed or category may exceed its cap.
+ */
+export class ItemSelector {
+  private config: SelectionConfig;
+  private maxTotalItems: number;
+  private weights: Map<string, number>;
+
+  constructor(config: Partial<SelectionConfig> = {}, maxTotalItems: number, feeds: FeedConfig[] = []) {
+    this.config = { ...DEFAULT_SELECTION_CONFIG, ...config };
+    this.maxTotalItems = maxTotalItems;
+    this.weights = new Map(feeds.map(f => [f.name, f.weight ?? 1]));
+  }
+
+  get strategy(): string {
+    return this.config.strategy;
+  }
+
+  /** The most items one feed may contribute to an edition. */
+  get feedCap(): number {
+    if (this.config.maxFeedShare >= 1) return this.maxTotalItems;
+    return Math.max(1, Math.floor(this.config.maxFeedShare * this.maxTotalItems));
+  }
+
+  select(items: FeedItem[]): SelectionResult {
+    const feedCap = this.feedCap;
+    const perFeed = new Map<string, number>();
+    const perCategory = new Map<string, number>();
+    const selected: FeedItem[] = [];
+    const blocked = new Map<FeedItem, SelectionCutReason>();
+    const remaining = new Set(items);
+
+    const take = (item: FeedItem): void => {
+      remaining.delete(item);
+
+      if ((perFeed.get(item.feedName) || 0) >= feedCap) {
+        blocked.set(item, 'feed-share');
+        return;
+      }
+      const max = this.config.categories[item.category]?.max;
+      if (max !== undefined && (perCategory.get(item.category) || 0) >= max) {
+        blocked.set(item, 'category-max');
+        return;
+      }
+
+      selected.push(item);
+      perFeed.set(item.feedName, (perFeed.get(item.feedName) || 0) + 1);
+      perCategory.set(item.category, (perCategory.get(item.category) || 0) + 1);
+    };
+
+    // Minimums first, so a quiet category is not crowded out by busy ones
+    for (const [category, quota] of Object.entries(this.config.categories)) {
+      if (!quota.min) continue;
+      const min = quota.min;
+      this.interleave(
+        items.filter(item => item.category === category),
+        () => (perCategory.get(category) || 0) >= min || selected.length >= this.maxTotalItems,
+        take
+      );
+    }
+
+    this.interleave(
+      items.filter(item => remaining.has(item)),
+      () => selected.length >= this.maxTotalItems,
+      take
+    );
+
+    const chosen = new Set(selected);
+    const cut = items
+      .filter(item => !chosen.has(item))
+      .sort(compareItems)
+      .map(item => ({ item, reason: blocked.get(item) || 'total-limit' as SelectionCutReason }));
+
+    const shortfalls = Object.entries(this.config.categories)
+      .filter(([category, quota]) => quota.min && (perCategory.get(category) || 0) < quota.min)
+      .map(([category, quota]) => ({ category, min: quota.min!, selected: perCategory.get(category) || 0 }));
+
+    return { selected: selected.sort(compareItems), cut, shortfalls };
+  }
+
+  /**
+   * Offers items to `take` until `done` says stop. With "ranked" they come
+   * in ranking order; otherwise feeds take turns by smooth weighted
+   * round-robin (all weights 1 for "round-robin"), each offering its
+   * best-ranked remaining item.
+   */
+  private interleave(pool: FeedItem[], done: () => boolean, take: (item: FeedItem) => void): void {
+    const sorted = [...pool].sort(compareItems);
+
+    if (this.config.strategy === 'ranked') {
+      for (const item of sorted) {
+        if (done()) return;
+        take(item);
+      }
+      return;
+    }
+
+    // Feeds enter the rotation in the order of their best-ranked item
+    const queues = new Map<string, FeedItem[]>();
+    for (const item of sorted) {
+      if (!queues.has(item.feedName)) {
+        queues.set(item.feedName, []);
+      }
+      queues.get(item.feedName)!.push(item);
+    }
+
+    const weightOf = (feed: string) => this.config.strategy === 'weighted' ? this.weights.get(feed) ?? 1 : 1;
+    const current = new Map<string, number>();
+
+    while (!done()) {
+      const active = Array.from(queues.keys()).filter(feed => queues.get(feed)!.length > 0);
+      if (active.length === 0) return;
+
+      let next = active[0];
+      let totalWeight = 0;
+      for (const feed of active) {
+        const weight = weightOf(feed);
+        totalWeight += weight;
+        current.set(feed, (current.get(feed) || 0) + weight);
+        if (current.get(feed)! > current.get(next)!) {
+          next = feed;
+        }
+      }
+      current.set(next, current.get(next)! - totalWeight);
+
+      take(queues.get(next)!.shift()!);
+    }
+  }
+}
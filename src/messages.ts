@@ -0,0 +1,165 @@
+/**
+ * Every user-facing string of the pages, the email edition and the
+ * published feeds. Themes reach them as {{messages.name}}; strings with
+ * {placeholders} are filled in with formatMessage, or by the search
+ * page's script.
+ */
+const EN = {
+  // Edition
+  at: 'at',
+  newArticles: 'New Articles',
+  feedsProcessed: 'Feeds Processed',
+  duplicatesSkipped: 'Duplicates Skipped',
+  noNewArticles: 'No new articles today',
+  allProcessed: 'All articles from your feeds have already been processed.',
+  alsoCoveredBy: 'Also covered by',
+  feedStatus: 'Feed Status',
+  ok: 'OK',
+  healthDegraded: 'degraded',
+  healthQuarantined: 'quarantined',
+  quarantinedSince: 'quarantined since {date}',
+  since: 'since',
+  unknown: 'unknown',
+  generatedBy: 'Generated by',
+  subscribe: 'Subscribe',
+  sources: 'Sources (OPML)',
+  lastUpdated: 'Last updated',
+
+  // Archive and navigation
+  archive: 'Archive',
+  archiveTitle: 'Newsletter Archive',
+  backToLatest: 'Back to Latest',
+  recentEditions: 'Recent editions',
+  byMonth: 'By month',
+  articles: 'articles',
+  editions: 'editions',
+  latest: 'Latest',
+  latestEdition: 'Latest edition',
+  noEditionsYet: 'No editions yet',
+
+  // Search
+  search: 'Search',
+  searchTitle: 'Search the Archive',
+  searchPastArticles: 'Search past articles',
+  searchPlaceholder: 'Search titles, sources and authors',
+  searchLoading: 'Loading the index…',
+  searchNeedsJavaScript: 'Searching needs JavaScript.',
+  searchBrowseArchive: 'Browse the archive instead.',
+  searchIndexSize: '{count} articles in the archive',
+  searchNoMatch: 'No articles match "{query}"',
+  searchFoundOne: '1 article found',
+  searchFound: '{count} articles found',
+  searchShowingFirst: '{count} articles found, showing the first {max}',
+  searchEdition: 'edition',
+  searchFailed: 'The search index could not be loaded ({error})',
+
+  // Roll-ups
+  weeklyRollups: 'Weekly roll-ups',
+  monthlyRollups: 'Monthly roll-ups',
+  week: 'Week {week}, {year}',
+  topArticles: 'Top Articles',
+  published: 'Published',
+  dailyEditions: 'Daily Editions',
+  latestDailyEdition: 'Latest daily edition',
+  nothingPublished: 'Nothing was published in this period',
+  fromDailyEditions: 'From the daily editions of',
+  noRollupsYet: 'No roll-ups have been published yet.',
+
+  // Email and published feeds
+  viewInBrowser: 'View in your browser',
+  notUpdated: 'Not updated',
+  articlesFromSources: '{count} new articles from {sources} sources',
+  feedsUpdated: '{updated} of {total} feeds updated',
+  rollupSummary: 'The top {count} of {total} articles from {editions} daily editions',
+  readOn: 'Read on {feed}'
+};
+
+export type Messages = typeof EN;
+
+const DE: Messages = {
+  at: 'um',
+  newArticles: 'Neue Artikel',
+  feedsProcessed: 'Verarbeitete Feeds',
+  duplicatesSkipped: 'Übersprungene Duplikate',
+  noNewArticles: 'Heute keine neuen Artikel',
+  allProcessed: 'Alle Artikel aus deinen Feeds wurden bereits verarbeitet.',
+  alsoCoveredBy: 'Auch berichtet von',
+  feedStatus: 'Feed-Status',
+  ok: 'OK',
+  healthDegraded: 'eingeschränkt',
+  healthQuarantined: 'gesperrt',
+  quarantinedSince: 'gesperrt seit {date}',
+  since: 'seit',
+  unknown: 'unbekannt',
+  generatedBy: 'Erstellt mit',
+  subscribe: 'Abonnieren',
+  sources: 'Quellen (OPML)',
+  lastUpdated: 'Zuletzt aktualisiert',
+
+  archive: 'Archiv',
+  archiveTitle: 'Newsletter-Archiv',
+  backToLatest: 'Zur neuesten Ausgabe',
+  recentEditions: 'Neueste Ausgaben',
+  byMonth: 'Nach Monat',
+  articles: 'Artikel',
+  editions: 'Ausgaben',
+  latest: 'Neueste',
+  latestEdition: 'Neueste Ausgabe',
+  noEditionsYet: 'Noch keine Ausgaben',
+
+  search: 'Suche',
+  searchTitle: 'Archiv durchsuchen',
+  searchPastArticles: 'Frühere Artikel durchsuchen',
+  searchPlaceholder: 'Titel, Quellen und Autoren durchsuchen',
+  searchLoading: 'Index wird geladen…',
+  searchNeedsJavaScript: 'Die Suche benötigt JavaScript.',
+  searchBrowseArchive: 'Stattdessen das Archiv durchblättern.',
+  searchIndexSize: '{count} Artikel im Archiv',
+  searchNoMatch: 'Keine Artikel zu „{query}“ gefunden',
+  searchFoundOne: '1 Artikel gefunden',
+  searchFound: '{count} Artikel gefunden',
+  searchShowingFirst: '{count} Artikel gefunden, die ersten {max} werden angezeigt',
+  searchEdition: 'Ausgabe',
+  searchFailed: 'Der Suchindex konnte nicht geladen werden ({error})',
+
+  weeklyRollups: 'Wochenrückblicke',
+  monthlyRollups: 'Monatsrückblicke',
+  week: 'KW {week}/{year}',
+  topArticles: 'Top-Artikel',
+  published: 'Veröffentlicht',
+  dailyEditions: 'Tagesausgaben',
+  latestDailyEdition: 'Neueste Tagesausgabe',
+  nothingPublished: 'In diesem Zeitraum wurde nichts veröffentlicht',
+  fromDailyEditions: 'Aus den Tagesausgaben vom',
+  noRollupsYet: 'Es wurden noch keine Rückblicke veröffentlicht.',
+
+  viewInBrowser: 'Im Browser ansehen',
+  notUpdated: 'Nicht aktualisiert',
+  articlesFromSources: '{count} neue Artikel aus {sources} Quellen',
+  feedsUpdated: '{updated} von {total} Feeds aktualisiert',
+  rollupSummary: 'Die besten {count} von {total} Artikeln aus {editions} Tagesausgaben',
+  readOn: 'Weiterlesen bei {feed}'
+};
+
+const CATALOGS: Record<string, Messages> = { en: EN, de: DE };
+
+/** The bundled languages, by primary language subtag. */
+export const MESSAGE_LANGUAGES = Object.keys(CATALOGS);
+
+function languageOf(locale: string): string {
+  return new Intl.Locale(locale).language;
+}
+
+export function hasMessages(locale: string): boolean {
+  return languageOf(locale) in CATALOGS;
+}
+
+/** The catalog for `locale`'s language, or English when none is bundled. */
+export function messagesFor(locale: string): Messages {
+  return CATALOGS[languageOf(locale)] || EN;
+}
+
+/** Replaces each {name} in `message` with its value. */
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name]) : match);
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+
+export interface MimeMessage {
+  from: string;
+  to: string;
+  subject: string;
+  date: Date;
+  replyTo?: string;
+  text: string;
+  html: string;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * RFC 2047 encoded-word for header values that are not plain ASCII.
+ * Each word is kept under the 75-character limit by splitting on whole
+ * characters, so a multi-byte character is never cut in half.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join(`${CRLF} `);
+}
+
+/**
+ * Encodes the display name of an address such as `Daily Digest <digest@example.com>`,
+ * leaving the address itself untouched.
+ */
+export function encodeAddress(address: string): string {
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || match[1] === '') return address.trim();
+  return `${encodeHeaderValue(match[1])} <${match[2]}>`;
+}
+
+/** The bare mailbox of an address, as used in the SMTP envelope. */
+export function addressOf(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf-8').toString('base64').replace(/.{76}/g, `$&${CRLF}`);
+}
+
+/**
+ * Builds a multipart/alternative message with a plaintext and an HTML part.
+ * Both parts are base64 encoded, which keeps every line short enough for
+ * SMTP regardless of what the feeds contain. Lines end in CRLF, so the
+ * result can be saved as an .eml file or sent as-is.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const boundary = `=_newsletter_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+
+  const headers = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeAddress(message.replyTo)}`] : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${message.date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`
+  ];
+
+  const part = (contentType: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(content)
+  ].join(CRLF);
+
+  return [
+    headers.join(CRLF),
+    '',
+    'This is a multi-part message in MIME format.',
+    '',
+    part('text/plain', message.text),
+    '',
+    part('text/html', message.html),
+    '',
+    `--${boundary}--`,
+    ''
+  ].join(CRLF);
+}
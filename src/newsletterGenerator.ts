@@ -1,629 +1,306 @@
 import fs from 'fs';
 import path from 'path';
-import { FeedItem, NewsletterConfig, GenerationStats, FetchResult } from './types.js';
+import {
+  EditionRecord,
+  EditionSummary,
+  FeedConfig,
+  NewsletterConfig,
+  RollupCadence,
+  RollupRecord,
+  RollupSummary,
+  SearchDocument
+} from './types.js';
+import { SyndicationWriter } from './syndication.js';
+import {
+  ArchiveEntry,
+  EditionNavigation,
+  buildArchiveModel,
+  buildArchiveMonthModel,
+  buildArchiveYearModel,
+  buildEditionModel,
+  buildEditionNavigation,
+  buildNewsletterIndexModel,
+  buildRollupIndexModel,
+  buildRollupModel,
+  buildSearchModel,
+  editionFilename,
+  monthArchiveFilename,
+  rollupFilename,
+  rollupIndexFilename,
+  toArchiveEntry,
+  yearArchiveFilename
+} from './edition.js';
+import { EditionManifest } from './editionManifest.js';
+import { SEARCH_INDEX_FILE, buildSearchIndex } from './search.js';
+import { OPML_FILE, renderOpml } from './opml.js';
+import { Newsletter } from './newsletters.js';
+import { Renderer, TemplateRenderer } from './renderer.js';
 
 export class NewsletterGenerator {
   private config: NewsletterConfig;
   private outputDir: string;
+  private renderer: Renderer;
 
-  constructor(config: NewsletterConfig, outputDir: string = './output') {
+  constructor(config: NewsletterConfig, outputDir: string = './output', renderer?: Renderer) {
     this.config = config;
     this.outputDir = outputDir;
+    this.renderer = renderer || new TemplateRenderer(config.theme);
 
     if (!fs.existsSync(outputDir)) {
       fs.mkdirSync(outputDir, { recursive: true });
     }
   }
 
-  private formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  generateHtml(edition: EditionRecord, navigation?: EditionNavigation): string {
+    const { items, stats, feedResults, feedHealth } = edition;
+    return this.renderer.renderEdition(
+      buildEditionModel(this.config, items, stats, feedResults, feedHealth, stats.generatedAt, navigation)
+    );
   }
 
-  private formatTime(date: Date): string {
-    return date.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      timeZoneName: 'short'
-    });
+  generateArchiveIndex(archives: ArchiveEntry[]): string {
+    return this.renderer.renderArchive(buildArchiveModel(this.config, archives));
   }
 
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
+  /**
+   * Opens editions.json. When there is none yet, or `recreate` is set, it
+   * is built from the stored editions plus any archive pages written
+   * before editions were stored in the database.
+   */
+  openManifest(stored: () => EditionSummary[], recreate = false): EditionManifest {
+    const existing = recreate ? null : EditionManifest.read(this.outputDir);
+    if (existing) return existing;
+
+    const editions = stored();
+    const known = new Set(editions.map(e => e.date));
+    return new EditionManifest(this.outputDir, [
+      ...editions.map(e => ({
+        date: e.date,
+        filename: editionFilename(e.date),
+        itemCount: e.itemCount,
+        categories: e.categories,
+        generatedAt: e.generatedAt
+      })),
+      ...this.findUnstoredPages(known)
+    ]);
   }
 
-  private groupByCategory(items: FeedItem[]): Map<string, FeedItem[]> {
-    const grouped = new Map<string, FeedItem[]>();
+  /**
+   * Writes an edition's dated page with links to its neighbours in the
+   * manifest, and index.html if it is the latest edition.
+   */
+  writeEdition(edition: EditionRecord, manifest: EditionManifest): string {
+    const html = this.generateHtml(edition, buildEditionNavigation(this.config, manifest.editions, edition.date));
 
-    for (const item of items) {
-      const category = item.category || 'Uncategorized';
-      if (!grouped.has(category)) {
-        grouped.set(category, []);
-      }
-      grouped.get(category)!.push(item);
-    }
-
-    return grouped;
-  }
+    const archivePath = path.join(this.outputDir, editionFilename(edition.date));
+    fs.writeFileSync(archivePath, html, 'utf-8');
 
-  private generateItemHtml(item: FeedItem): string {
-    const pubDate = new Date(item.pubDate);
-    const timeAgo = this.getTimeAgo(pubDate);
-
-    return `
-      <article class="news-item">
-        <h3><a href="${this.escapeHtml(item.link)}" target="_blank" rel="noopener noreferrer">${this.escapeHtml(item.title)}</a></h3>
-        <div class="meta">
-          <span class="source">${this.escapeHtml(item.feedName)}</span>
-          <span class="separator">|</span>
-          <span class="time" title="${pubDate.toISOString()}">${timeAgo}</span>
-          ${item.author ? `<span class="separator">|</span><span class="author">${this.escapeHtml(item.author)}</span>` : ''}
-        </div>
-        ${item.description ? `<p class="description">${this.escapeHtml(item.description)}</p>` : ''}
-      </article>
-    `;
-  }
+    if (manifest.editions[0]?.date === edition.date) {
+      fs.writeFileSync(path.join(this.outputDir, 'index.html'), html, 'utf-8');
+    }
 
-  private getTimeAgo(date: Date): string {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays === 1) return 'Yesterday';
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return archivePath;
   }
 
-  generateHtml(items: FeedItem[], stats: GenerationStats, feedResults: FetchResult[]): string {
-    const now = new Date();
-    const grouped = this.groupByCategory(items);
-
-    // Sort items within each category by date
-    grouped.forEach((categoryItems) => {
-      categoryItems.sort((a, b) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime());
-    });
-
-    const categorySections = Array.from(grouped.entries())
-      .map(([category, categoryItems]) => `
-        <section class="category-section">
-          <h2 class="category-title">
-            <span class="category-icon">${this.getCategoryIcon(category)}</span>
-            ${this.escapeHtml(category)}
-            <span class="item-count">(${categoryItems.length})</span>
-          </h2>
-          <div class="items-list">
-            ${categoryItems.map(item => this.generateItemHtml(item)).join('\n')}
-          </div>
-        </section>
-      `).join('\n');
-
-    const successfulFeeds = feedResults.filter(r => r.success);
-    const failedFeeds = feedResults.filter(r => !r.success);
-
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta name="description" content="${this.escapeHtml(this.config.description)}">
-  <meta name="author" content="${this.escapeHtml(this.config.author)}">
-  <meta name="generator" content="RSS Newsletter Generator">
-  <meta property="og:title" content="${this.escapeHtml(this.config.title)} - ${this.formatDate(now)}">
-  <meta property="og:description" content="${this.escapeHtml(this.config.description)}">
-  <meta property="og:type" content="website">
-  <title>${this.escapeHtml(this.config.title)} - ${this.formatDate(now)}</title>
-  <style>
-    :root {
-      --primary-color: #1a73e8;
-      --primary-hover: #1557b0;
-      --text-color: #202124;
-      --text-secondary: #5f6368;
-      --background: #f8f9fa;
-      --card-background: #ffffff;
-      --border-color: #dadce0;
-      --success-color: #34a853;
-      --error-color: #ea4335;
-      --shadow: 0 1px 3px rgba(0,0,0,0.12), 0 1px 2px rgba(0,0,0,0.24);
-      --shadow-hover: 0 3px 6px rgba(0,0,0,0.15), 0 2px 4px rgba(0,0,0,0.12);
-    }
-
-    @media (prefers-color-scheme: dark) {
-      :root {
-        --primary-color: #8ab4f8;
-        --primary-hover: #aecbfa;
-        --text-color: #e8eaed;
-        --text-secondary: #9aa0a6;
-        --background: #202124;
-        --card-background: #292a2d;
-        --border-color: #5f6368;
-        --shadow: 0 1px 3px rgba(0,0,0,0.24), 0 1px 2px rgba(0,0,0,0.48);
+  /**
+   * The newest editions in the manifest, loaded until they fill the
+   * published feeds; `edition` stands in for its own date.
+   */
+  private recentEditions(
+    edition: EditionRecord,
+    manifest: EditionManifest,
+    load: (date: string) => EditionRecord | null
+  ): EditionRecord[] {
+    const editions: EditionRecord[] = [];
+    let entries = 0;
+    for (const entry of manifest.editions) {
+      if (entries >= this.config.feedMaxEntries) break;
+
+      const stored = entry.date === edition.date ? edition : load(entry.date);
+      if (stored) {
+        editions.push(stored);
+        entries += this.config.feedItemEntries ? stored.items.length : 1;
       }
     }
+    return editions;
+  }
 
-    * {
-      box-sizing: border-box;
-      margin: 0;
-      padding: 0;
-    }
-
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
-      background: var(--background);
-      color: var(--text-color);
-      line-height: 1.6;
-      min-height: 100vh;
-    }
-
-    .container {
-      max-width: 900px;
-      margin: 0 auto;
-      padding: 20px;
-    }
-
-    header {
-      text-align: center;
-      padding: 40px 20px;
-      background: var(--card-background);
-      border-radius: 12px;
-      margin-bottom: 30px;
-      box-shadow: var(--shadow);
-    }
-
-    header h1 {
-      font-size: 2.5rem;
-      margin-bottom: 10px;
-      color: var(--primary-color);
-    }
-
-    header .subtitle {
-      color: var(--text-secondary);
-      font-size: 1.1rem;
-      margin-bottom: 15px;
-    }
-
-    header .date {
-      font-size: 0.95rem;
-      color: var(--text-secondary);
-    }
-
-    .stats-bar {
-      display: flex;
-      justify-content: center;
-      gap: 30px;
-      flex-wrap: wrap;
-      padding: 15px;
-      background: var(--card-background);
-      border-radius: 8px;
-      margin-bottom: 30px;
-      box-shadow: var(--shadow);
-    }
-
-    .stat-item {
-      text-align: center;
-    }
-
-    .stat-value {
-      font-size: 1.5rem;
-      font-weight: bold;
-      color: var(--primary-color);
-    }
-
-    .stat-label {
-      font-size: 0.85rem;
-      color: var(--text-secondary);
-    }
-
-    .category-section {
-      margin-bottom: 35px;
-    }
-
-    .category-title {
-      display: flex;
-      align-items: center;
-      gap: 10px;
-      font-size: 1.4rem;
-      padding: 15px 20px;
-      background: var(--card-background);
-      border-radius: 8px 8px 0 0;
-      border-bottom: 2px solid var(--primary-color);
-      box-shadow: var(--shadow);
-    }
-
-    .category-icon {
-      font-size: 1.3rem;
-    }
-
-    .item-count {
-      font-size: 0.9rem;
-      color: var(--text-secondary);
-      font-weight: normal;
-    }
-
-    .items-list {
-      background: var(--card-background);
-      border-radius: 0 0 8px 8px;
-      box-shadow: var(--shadow);
-    }
-
-    .news-item {
-      padding: 20px;
-      border-bottom: 1px solid var(--border-color);
-      transition: background-color 0.2s;
-    }
-
-    .news-item:last-child {
-      border-bottom: none;
-      border-radius: 0 0 8px 8px;
-    }
-
-    .news-item:hover {
-      background-color: var(--background);
-    }
-
-    .news-item h3 {
-      font-size: 1.1rem;
-      margin-bottom: 8px;
-      line-height: 1.4;
-    }
-
-    .news-item h3 a {
-      color: var(--text-color);
-      text-decoration: none;
-      transition: color 0.2s;
-    }
-
-    .news-item h3 a:hover {
-      color: var(--primary-color);
-    }
-
-    .news-item .meta {
-      font-size: 0.85rem;
-      color: var(--text-secondary);
-      margin-bottom: 10px;
-    }
-
-    .news-item .meta .separator {
-      margin: 0 8px;
-      opacity: 0.5;
-    }
-
-    .news-item .source {
-      color: var(--primary-color);
-      font-weight: 500;
-    }
-
-    .news-item .description {
-      color: var(--text-secondary);
-      font-size: 0.95rem;
-      line-height: 1.5;
-    }
-
-    .feed-status {
-      background: var(--card-background);
-      border-radius: 8px;
-      padding: 20px;
-      margin-top: 30px;
-      box-shadow: var(--shadow);
-    }
+  /**
+   * Adds the edition to the manifest and writes its pages, the feeds and
+   * the archive pages it appears on. `load` reads stored editions for the
+   * feeds. The previous edition's page is left to the caller, which has to
+   * load it to add the link to this one.
+   */
+  async writeNewsletter(
+    edition: EditionRecord,
+    manifest: EditionManifest,
+    load: (date: string) => EditionRecord | null
+  ): Promise<string> {
+    manifest.add(toArchiveEntry(edition));
 
-    .feed-status h3 {
-      margin-bottom: 15px;
-      font-size: 1.1rem;
-    }
+    const indexPath = path.join(this.outputDir, 'index.html');
+    const archivePath = this.writeEdition(edition, manifest);
+    console.log(`\nNewsletter written to: ${indexPath}`);
+    console.log(`Archive copy written to: ${archivePath}`);
 
-    .feed-status-grid {
-      display: grid;
-      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
-      gap: 10px;
-    }
+    // Publish the newsletter itself as RSS, Atom and JSON Feed
+    new SyndicationWriter(this.config, this.outputDir).write(this.recentEditions(edition, manifest, load), edition.stats.generatedAt);
 
-    .feed-badge {
-      display: inline-flex;
-      align-items: center;
-      gap: 6px;
-      padding: 6px 12px;
-      border-radius: 20px;
-      font-size: 0.85rem;
-      background: var(--background);
-    }
+    // The previous edition's month and year pages gain a link to this one's
+    const previous = buildEditionNavigation(this.config, manifest.editions, edition.date).previous;
+    this.writeArchivePages(manifest, previous ? [edition.date, previous.date] : [edition.date]);
 
-    .feed-badge.success::before {
-      content: '✓';
-      color: var(--success-color);
-    }
+    return indexPath;
+  }
 
-    .feed-badge.error::before {
-      content: '✗';
-      color: var(--error-color);
+  /**
+   * Writes the pages of manifest editions that are missing from the output
+   * directory, and the archive pages of their months and years. Only the
+   * database outlives a CI run, so without this the archive would link to
+   * pages that were never published. Returns the dates written.
+   */
+  writeMissingEditions(manifest: EditionManifest, load: (date: string) => EditionRecord | null): string[] {
+    const written: string[] = [];
+    for (const entry of manifest.editions) {
+      if (fs.existsSync(path.join(this.outputDir, entry.filename))) continue;
+
+      // Loaded one at a time to keep memory flat on a long archive
+      const edition = load(entry.date);
+      if (edition) {
+        this.writeEdition(edition, manifest);
+        written.push(entry.date);
+      }
     }
 
-    footer {
-      text-align: center;
-      padding: 30px 20px;
-      color: var(--text-secondary);
-      font-size: 0.9rem;
+    if (written.length > 0) {
+      this.writeArchivePages(manifest, written);
     }
+    return written;
+  }
 
-    footer a {
-      color: var(--primary-color);
-      text-decoration: none;
-    }
+  /**
+   * Writes archive.html and the year and month pages of `dates` (of every
+   * edition when omitted), then saves the manifest.
+   */
+  writeArchivePages(manifest: EditionManifest, dates?: string[]): void {
+    const { editions } = manifest;
+    const affected = dates || editions.map(e => e.date);
 
-    footer a:hover {
-      text-decoration: underline;
-    }
+    fs.writeFileSync(path.join(this.outputDir, 'archive.html'), this.generateArchiveIndex(editions), 'utf-8');
 
-    .no-items {
-      text-align: center;
-      padding: 60px 20px;
-      color: var(--text-secondary);
+    for (const year of new Set(affected.map(date => date.slice(0, 4)))) {
+      const html = this.renderer.renderArchiveYear(buildArchiveYearModel(this.config, editions, year));
+      fs.writeFileSync(path.join(this.outputDir, yearArchiveFilename(year)), html, 'utf-8');
     }
-
-    .no-items h2 {
-      font-size: 1.5rem;
-      margin-bottom: 10px;
+    for (const month of new Set(affected.map(date => date.slice(0, 7)))) {
+      const html = this.renderer.renderArchiveMonth(buildArchiveMonthModel(this.config, editions, month));
+      fs.writeFileSync(path.join(this.outputDir, monthArchiveFilename(month)), html, 'utf-8');
     }
 
-    @media (max-width: 600px) {
-      .container {
-        padding: 10px;
-      }
-
-      header {
-        padding: 25px 15px;
-      }
-
-      header h1 {
-        font-size: 1.8rem;
-      }
-
-      .stats-bar {
-        gap: 15px;
-      }
-
-      .category-title {
-        font-size: 1.2rem;
-        padding: 12px 15px;
-      }
-
-      .news-item {
-        padding: 15px;
-      }
+    manifest.write(this.config.title);
+  }
 
-      .news-item h3 {
-        font-size: 1rem;
-      }
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <header>
-      <h1>${this.escapeHtml(this.config.title)}</h1>
-      <p class="subtitle">${this.escapeHtml(this.config.description)}</p>
-      <p class="date">
-        <strong>${this.formatDate(now)}</strong> at ${this.formatTime(now)}
-      </p>
-    </header>
-
-    <div class="stats-bar">
-      <div class="stat-item">
-        <div class="stat-value">${stats.newItems}</div>
-        <div class="stat-label">New Articles</div>
-      </div>
-      <div class="stat-item">
-        <div class="stat-value">${stats.successfulFeeds}/${stats.totalFeeds}</div>
-        <div class="stat-label">Feeds Processed</div>
-      </div>
-      <div class="stat-item">
-        <div class="stat-value">${stats.duplicatesRemoved}</div>
-        <div class="stat-label">Duplicates Skipped</div>
-      </div>
-    </div>
-
-    <main>
-      ${items.length > 0 ? categorySections : `
-        <div class="no-items">
-          <h2>No new articles today</h2>
-          <p>All articles from your feeds have already been processed.</p>
-        </div>
-      `}
-    </main>
-
-    <div class="feed-status">
-      <h3>Feed Status</h3>
-      <div class="feed-status-grid">
-        ${feedResults.map(r => `
-          <span class="feed-badge ${r.success ? 'success' : 'error'}" title="${r.error || 'OK'}">
-            ${this.escapeHtml(r.feedName)}
-          </span>
-        `).join('')}
-      </div>
-    </div>
-
-    <footer>
-      <p>Generated by <strong>RSS Newsletter Generator</strong></p>
-      <p>Last updated: ${now.toISOString()}</p>
-    </footer>
-  </div>
-</body>
-</html>`;
+  /**
+   * Writes search.html and the JSON index it searches in the browser, so
+   * the published site can be searched without a server.
+   */
+  writeSearchPage(documents: SearchDocument[]): void {
+    fs.writeFileSync(
+      path.join(this.outputDir, SEARCH_INDEX_FILE),
+      JSON.stringify(buildSearchIndex(documents)),
+      'utf-8'
+    );
+
+    const html = this.renderer.renderSearch(buildSearchModel(this.config, documents.length, SEARCH_INDEX_FILE));
+    fs.writeFileSync(path.join(this.outputDir, 'search.html'), html, 'utf-8');
+    console.log(`Search page written with ${documents.length} items`);
   }
 
-  private getCategoryIcon(category: string): string {
-    const icons: Record<string, string> = {
-      'Tech News': '📰',
-      'Technology': '💻',
-      'Development': '🛠️',
-      'Web Development': '🌐',
-      'AI & Machine Learning': '🤖',
-      'Cloud & DevOps': '☁️',
-      'Security': '🔒',
-      'Business': '📊',
-      'Science': '🔬',
-      'Gaming': '🎮',
-      'Uncategorized': '📌'
-    };
-    return icons[category] || '📌';
+  /**
+   * Writes opml.xml with the enabled feeds, so readers can subscribe to
+   * the newsletter's sources themselves.
+   */
+  writeOpml(feeds: FeedConfig[], categories: string[]): void {
+    const opml = renderOpml(
+      { title: this.config.title, ownerName: this.config.author },
+      feeds.filter(f => f.enabled),
+      categories
+    );
+    fs.writeFileSync(path.join(this.outputDir, OPML_FILE), opml, 'utf-8');
   }
 
-  generateArchiveIndex(archives: { date: string; filename: string; itemCount: number }[]): string {
-    const now = new Date();
-
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${this.escapeHtml(this.config.title)} - Archive</title>
-  <style>
-    :root {
-      --primary-color: #1a73e8;
-      --text-color: #202124;
-      --text-secondary: #5f6368;
-      --background: #f8f9fa;
-      --card-background: #ffffff;
-      --border-color: #dadce0;
-      --shadow: 0 1px 3px rgba(0,0,0,0.12);
-    }
+  /**
+   * Writes a roll-up's page; `rollups` are the stored roll-ups of its
+   * cadence, newest first, which its previous and next links point to.
+   */
+  writeRollup(rollup: RollupRecord, rollups: RollupSummary[]): string {
+    const html = this.renderer.renderRollup(buildRollupModel(this.config, rollup, rollups));
+    const file = path.join(this.outputDir, rollupFilename(rollup.cadence, rollup.period));
+    fs.writeFileSync(file, html, 'utf-8');
+    return file;
+  }
 
-    @media (prefers-color-scheme: dark) {
-      :root {
-        --primary-color: #8ab4f8;
-        --text-color: #e8eaed;
-        --text-secondary: #9aa0a6;
-        --background: #202124;
-        --card-background: #292a2d;
-        --border-color: #5f6368;
+  /**
+   * Writes the pages of `rollups` that are missing from the output
+   * directory, as writeMissingEditions does for editions, and the list of
+   * them when any was. Returns the number written.
+   */
+  writeMissingRollups(
+    cadence: RollupCadence,
+    rollups: RollupSummary[],
+    load: (period: string) => RollupRecord | null
+  ): number {
+    let written = 0;
+    for (const summary of rollups) {
+      if (fs.existsSync(path.join(this.outputDir, rollupFilename(cadence, summary.period)))) continue;
+
+      const rollup = load(summary.period);
+      if (rollup) {
+        this.writeRollup(rollup, rollups);
+        written++;
       }
     }
 
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      background: var(--background);
-      color: var(--text-color);
-      line-height: 1.6;
-      padding: 20px;
-    }
-
-    .container {
-      max-width: 800px;
-      margin: 0 auto;
-    }
-
-    h1 {
-      color: var(--primary-color);
-      margin-bottom: 30px;
-    }
-
-    .archive-list {
-      list-style: none;
-      padding: 0;
-    }
-
-    .archive-item {
-      background: var(--card-background);
-      padding: 15px 20px;
-      margin-bottom: 10px;
-      border-radius: 8px;
-      box-shadow: var(--shadow);
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-    }
-
-    .archive-item a {
-      color: var(--primary-color);
-      text-decoration: none;
-      font-weight: 500;
-    }
-
-    .archive-item a:hover {
-      text-decoration: underline;
+    if (written > 0 || !fs.existsSync(path.join(this.outputDir, rollupIndexFilename(cadence)))) {
+      this.writeRollupIndex(cadence, rollups);
     }
-
-    .archive-item .count {
-      color: var(--text-secondary);
-      font-size: 0.9rem;
-    }
-
-    .back-link {
-      display: inline-block;
-      margin-bottom: 20px;
-      color: var(--primary-color);
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <a href="index.html" class="back-link">← Back to Latest</a>
-    <h1>Newsletter Archive</h1>
-    <ul class="archive-list">
-      ${archives.map(a => `
-        <li class="archive-item">
-          <a href="${a.filename}">${a.date}</a>
-          <span class="count">${a.itemCount} articles</span>
-        </li>
-      `).join('')}
-    </ul>
-  </div>
-</body>
-</html>`;
+    return written;
   }
 
-  async writeNewsletter(
-    items: FeedItem[],
-    stats: GenerationStats,
-    feedResults: FetchResult[]
-  ): Promise<string> {
-    const html = this.generateHtml(items, stats, feedResults);
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
-
-    // Write main index.html
-    const indexPath = path.join(this.outputDir, 'index.html');
-    fs.writeFileSync(indexPath, html, 'utf-8');
-    console.log(`\nNewsletter written to: ${indexPath}`);
-
-    // Write dated archive copy
-    const archivePath = path.join(this.outputDir, `newsletter-${dateStr}.html`);
-    fs.writeFileSync(archivePath, html, 'utf-8');
-    console.log(`Archive copy written to: ${archivePath}`);
-
-    // Update archive index
-    this.updateArchiveIndex();
+  /** Writes weekly.html or monthly.html, the list of `rollups`. */
+  writeRollupIndex(cadence: RollupCadence, rollups: RollupSummary[]): void {
+    const html = this.renderer.renderRollupIndex(buildRollupIndexModel(this.config, cadence, rollups));
+    fs.writeFileSync(path.join(this.outputDir, rollupIndexFilename(cadence)), html, 'utf-8');
+  }
 
-    return indexPath;
+  /**
+   * Writes index.html listing every newsletter with its latest edition,
+   * read from the editions.json in its directory.
+   */
+  writeNewsletterIndex(newsletters: Newsletter[]): void {
+    const html = this.renderer.renderNewsletterIndex(buildNewsletterIndexModel(
+      this.config,
+      newsletters.map(newsletter => ({
+        config: newsletter.config.newsletter,
+        output: newsletter.output,
+        latest: EditionManifest.read(path.join(this.outputDir, newsletter.output))?.editions[0]
+      }))
+    ));
+    fs.writeFileSync(path.join(this.outputDir, 'index.html'), html, 'utf-8');
   }
 
-  private updateArchiveIndex(): void {
-    const files = fs.readdirSync(this.outputDir)
-      .filter(f => f.startsWith('newsletter-') && f.endsWith('.html'))
-      .sort()
-      .reverse();
-
-    const archives = files.map(f => {
-      const dateMatch = f.match(/newsletter-(\d{4}-\d{2}-\d{2})\.html/);
-      const date = dateMatch ? dateMatch[1] : f;
-      const content = fs.readFileSync(path.join(this.outputDir, f), 'utf-8');
-      const itemCount = (content.match(/<article class="news-item">/g) || []).length;
-      return { date, filename: f, itemCount };
-    });
-
-    const archiveHtml = this.generateArchiveIndex(archives);
-    fs.writeFileSync(path.join(this.outputDir, 'archive.html'), archiveHtml, 'utf-8');
+  private findUnstoredPages(stored: Set<string>): ArchiveEntry[] {
+    return fs.readdirSync(this.outputDir)
+      .map(f => f.match(/^newsletter-(\d{4}-\d{2}-\d{2})\.html$/))
+      .filter((match): match is RegExpMatchArray => match !== null && !stored.has(match[1]))
+      .map(([filename, date]) => {
+        const content = fs.readFileSync(path.join(this.outputDir, filename), 'utf-8');
+        // Themes declare the count in a meta tag; older pages only have the default markup
+        const declared = content.match(/<meta name="item-count" content="(\d+)">/);
+        const itemCount = declared
+          ? parseInt(declared[1], 10)
+          : (content.match(/<article class="news-item"[ >]/g) || []).length;
+        return { date, filename, itemCount, categories: [] };
+      });
   }
 }
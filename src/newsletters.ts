@@ -0,0 +1,58 @@
+import path from 'path';
+import { Config } from './types.js';
+
+/** The id and deduplication namespace of a configuration without "newsletters". */
+export const DEFAULT_NEWSLETTER_ID = 'default';
+
+/**
+ * One newsletter to build, with a configuration of its own: its newsletter
+ * settings, only the feeds it uses and only their categories. Everything
+ * else is shared with the other newsletters.
+ */
+export interface Newsletter {
+  id: string;
+  dedupNamespace: string;
+  /** Relative to the output directory; '' for the only newsletter. */
+  output: string;
+  config: Config;
+}
+
+export function resolveNewsletters(config: Config): Newsletter[] {
+  if (!config.newsletters) {
+    return [{ id: DEFAULT_NEWSLETTER_ID, dedupNamespace: DEFAULT_NEWSLETTER_ID, output: '', config }];
+  }
+
+  return config.newsletters.map(definition => {
+    const selectsAll = !definition.feeds && !definition.categories;
+    const feeds = config.feeds.filter(feed =>
+      selectsAll ||
+      definition.feeds?.includes(feed.name) ||
+      definition.categories?.includes(feed.category)
+    );
+    const used = new Set(feeds.map(f => f.category));
+    // Quotas of categories the newsletter has no feeds for could never be met
+    const quotas = config.selection?.categories;
+    const selection = quotas
+      ? { ...config.selection, categories: Object.fromEntries(Object.entries(quotas).filter(([c]) => used.has(c))) }
+      : config.selection;
+
+    return {
+      id: definition.id,
+      dedupNamespace: definition.dedupNamespace,
+      output: definition.output,
+      config: {
+        ...config,
+        newsletter: definition.newsletter,
+        newsletters: undefined,
+        email: definition.email ?? config.email,
+        selection,
+        feeds,
+        categories: config.categories.filter(c => used.has(c))
+      }
+    };
+  });
+}
+
+export function newsletterOutputDir(outputDir: string, newsletter: Newsletter): string {
+  return path.join(outputDir, newsletter.output);
+}
@@ -0,0 +1,136 @@
+import { FeedConfig } from './types.js';
+
+export const OPML_FILE = 'opml.xml';
+
+/** A feed outline read from an OPML file. */
+export interface OpmlFeed {
+  title: string;
+  xmlUrl: string;
+  /** The text of the innermost folder outline it sits in. */
+  folder?: string;
+}
+
+export class OpmlError extends Error {
+  constructor(source: string, message: string) {
+    super(`${source}: ${message}`);
+    this.name = 'OpmlError';
+  }
+}
+
+const OUTLINE = /<outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<\/outline\s*>/gi;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? match;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Attribute names are matched case-insensitively, since exporters disagree on xmlUrl. */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name, double, single] of source.matchAll(ATTRIBUTE)) {
+    attributes.set(name.toLowerCase(), decodeXml(double ?? single).trim());
+  }
+  return attributes;
+}
+
+/**
+ * Reads the feed outlines of an OPML subscription list, in document order.
+ * Outlines without an xmlUrl are folders; a feed takes the innermost one
+ * it is nested in as its folder. `source` names the file in errors.
+ */
+export function parseOpml(xml: string, source: string): OpmlFeed[] {
+  const content = xml.replace(/<!--[\s\S]*?-->/g, '');
+  if (!/<opml\b/i.test(content)) {
+    throw new OpmlError(source, 'Not an OPML file (no <opml> element)');
+  }
+  const body = content.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i);
+  if (!body) {
+    throw new OpmlError(source, 'The OPML file has no <body>');
+  }
+
+  const feeds: OpmlFeed[] = [];
+  const open: Map<string, string>[] = [];
+
+  for (const [tag, attributeSource, selfClosing] of body[1].matchAll(OUTLINE)) {
+    if (tag.startsWith('</')) {
+      open.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeSource);
+    const xmlUrl = attributes.get('xmlurl');
+    if (xmlUrl) {
+      const folder = [...open].reverse().find(outline => !outline.get('xmlurl'));
+      feeds.push({
+        title: attributes.get('title') || attributes.get('text') || xmlUrl,
+        xmlUrl,
+        ...(folder ? { folder: folder.get('text') || folder.get('title') || undefined } : {})
+      });
+    }
+    if (!selfClosing) {
+      open.push(attributes);
+    }
+  }
+
+  return feeds;
+}
+
+/**
+ * Whether a reader could subscribe to `feed` as it is: local feeds
+ * (file: URLs) and feeds that send credentials or extra headers are
+ * private, and their URLs should not be published either.
+ */
+function isPublicFeed(feed: FeedConfig): boolean {
+  const request = feed.request || {};
+  const hasHeaders = (headers?: Record<string, string>) => !!headers && Object.keys(headers).length > 0;
+  return !feed.url.startsWith('file:')
+    && !request.auth
+    && !hasHeaders(request.headers)
+    && !hasHeaders(request.headersFromEnv);
+}
+
+/**
+ * Writes `feeds` as an OPML 2.0 subscription list with one folder per
+ * category, in the order of `categories`. Local feeds and feeds with
+ * authenticated request settings are left out (see isPublicFeed).
+ */
+export function renderOpml(
+  head: { title: string; ownerName?: string },
+  feeds: FeedConfig[],
+  categories: string[],
+  created: Date = new Date()
+): string {
+  const subscribable = feeds.filter(isPublicFeed);
+  const order = [...categories, ...subscribable.map(f => f.category).filter(c => !categories.includes(c))];
+  const folders = Array.from(new Set(order))
+    .map(category => ({ category, feeds: subscribable.filter(f => f.category === category) }))
+    .filter(folder => folder.feeds.length > 0);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(head.title)}</title>
+    <dateCreated>${created.toUTCString()}</dateCreated>
+${head.ownerName ? `    <ownerName>${escapeXml(head.ownerName)}</ownerName>\n` : ''}  </head>
+  <body>
+${folders.map(folder => `    <outline text="${escapeXml(folder.category)}" title="${escapeXml(folder.category)}">
+${folder.feeds.map(feed => `      <outline type="rss" text="${escapeXml(feed.name)}" title="${escapeXml(feed.name)}" xmlUrl="${escapeXml(feed.url)}" />`).join('\n')}
+    </outline>`).join('\n')}
+  </body>
+</opml>
+`;
+}
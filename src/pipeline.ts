@@ -0,0 +1,239 @@
+import {
+  CategoryShortfall,
+  Config,
+  CutItem,
+  FeedConfig,
+  FeedHealth,
+  FeedItem,
+  FetchResult,
+  FilterRuleReport,
+  ScoreBreakdown
+} from './types.js';
+import { DatabaseManager } from './database.js';
+import { FeedFetcher } from './feedFetcher.js';
+import { FeedHealthMonitor } from './feedHealth.js';
+import { UrlCanonicalizer } from './urlCanonicalizer.js';
+import { StoryClusterer } from './storyClusterer.js';
+import { ItemFilter } from './itemFilter.js';
+import { ItemSelector } from './itemSelector.js';
+import { ItemScorer } from './itemScorer.js';
+import { Newsletter } from './newsletters.js';
+
+/** The feeds of a run as fetched, before any newsletter has used them. */
+export interface FetchedFeeds {
+  results: FetchResult[];
+  skippedFeeds: FeedHealth[];
+}
+
+export interface EditionDraft {
+  results: FetchResult[];
+  skippedFeeds: FeedHealth[];
+  allItems: FeedItem[];
+  filtered: { item: FeedItem; rule: string; scope: string }[];
+  filterReport: FilterRuleReport[];
+  duplicates: FeedItem[];
+  newItems: FeedItem[];
+  merged: number;
+  attached: FeedItem[];
+  scores: Map<FeedItem, ScoreBreakdown>;
+  selected: FeedItem[];
+  cut: CutItem[];
+  shortfalls: CategoryShortfall[];
+}
+
+/**
+ * Fetches every enabled feed in `feeds` once, skipping quarantined feeds
+ * unless a re-probe is due. Only the fetch and health settings of `config`
+ * are used.
+ *
+ * @param useCache Send conditional GET validators. A preview must not, or
+ *   it would only see feeds that changed since the last generate run.
+ */
+export async function fetchFeeds(
+  config: Config,
+  feeds: FeedConfig[],
+  maxItemsPerFeed: number,
+  db: DatabaseManager,
+  useCache: boolean = true
+): Promise<FetchedFeeds> {
+  const healthMonitor = new FeedHealthMonitor(db, config.health);
+
+  const skippedFeeds: FeedHealth[] = [];
+  const feedsToFetch = feeds.filter(feed => {
+    if (!feed.enabled) return false;
+    const health = healthMonitor.getHealth(feed.name);
+    if (healthMonitor.shouldFetch(health)) return true;
+    console.log(`Skipping quarantined feed: ${feed.name} (next probe ${health.nextProbe})`);
+    skippedFeeds.push(health);
+    return false;
+  });
+
+  const fetcher = new FeedFetcher(config.fetch, useCache ? db : null);
+  const { results, allItems } = await fetcher.fetchAllFeeds(feedsToFetch, maxItemsPerFeed);
+
+  console.log(`\n${'─'.repeat(60)}`);
+  console.log('Feed Fetch Summary:');
+  console.log(`  Total feeds: ${results.length}`);
+  console.log(`  Successful: ${results.filter(r => r.success).length}`);
+  console.log(`  Failed: ${results.filter(r => !r.success).length}`);
+  console.log(`  Not modified (cached): ${results.filter(r => r.fromCache).length}`);
+  console.log(`  Total items fetched: ${allItems.length}`);
+
+  return { results, skippedFeeds };
+}
+
+/**
+ * Fetches what all of `newsletters` need in one go: a feed used by several
+ * of them is fetched once, keeping as many items as the most generous one.
+ */
+export function fetchForNewsletters(
+  config: Config,
+  newsletters: Newsletter[],
+  db: DatabaseManager,
+  useCache: boolean = true
+): Promise<FetchedFeeds> {
+  const used = new Set(newsletters.flatMap(n => n.config.feeds.map(f => f.name)));
+  return fetchFeeds(
+    config,
+    config.feeds.filter(f => used.has(f.name)),
+    Math.max(...newsletters.map(n => n.config.newsletter.maxItemsPerFeed)),
+    db,
+    useCache
+  );
+}
+
+/**
+ * The read-only part of a run for one newsletter: filter, deduplicate,
+ * cluster, score and select what fetchFeeds or fetchForNewsletters fetched.
+ * Persisting the outcome is left to the caller, so the same steps back both
+ * `generate` and `preview`.
+ */
+export class EditionPipeline {
+  readonly canonicalizer: UrlCanonicalizer;
+  readonly clusterer: StoryClusterer;
+  readonly healthMonitor: FeedHealthMonitor;
+  private config: Config;
+  private db: DatabaseManager;
+
+  constructor(config: Config, db: DatabaseManager) {
+    this.config = config;
+    this.db = db;
+    this.canonicalizer = new UrlCanonicalizer(config.canonicalization);
+    this.clusterer = new StoryClusterer(db, config.clustering);
+    this.healthMonitor = new FeedHealthMonitor(db, config.health);
+  }
+
+  /**
+   * Drops expired entries and re-keys stored URLs whenever the
+   * canonicalization rules change.
+   */
+  prepareDatabase(): void {
+    this.db.cleanOldEntries(this.config.newsletter.retentionDays);
+
+    const rulesFingerprint = this.canonicalizer.fingerprint();
+    if (this.db.getMetadata('canonicalization_rules') !== rulesFingerprint) {
+      const rekeyed = this.db.rekeyProcessedUrls(url => this.canonicalizer.canonicalize(url));
+      this.db.setMetadata('canonicalization_rules', rulesFingerprint);
+      console.log(`Re-keyed ${rekeyed} processed URLs to canonical form`);
+    }
+  }
+
+  /**
+   * Builds the edition from fetched feeds, which may include feeds of
+   * other newsletters; only this newsletter's feeds are used.
+   */
+  process(fetched: FetchedFeeds): EditionDraft {
+    const { config, db, canonicalizer } = this;
+    const { maxItemsPerFeed } = config.newsletter;
+
+    const feedNames = new Set(config.feeds.filter(f => f.enabled).map(f => f.name));
+    const results = fetched.results.filter(r => feedNames.has(r.feedName));
+    const skippedFeeds = fetched.skippedFeeds.filter(h => feedNames.has(h.feedName));
+    // Fetched items are newest first within each feed
+    const allItems = results.filter(r => r.success).flatMap(r => r.items.slice(0, maxItemsPerFeed));
+
+    // Get already processed URLs
+    const processedUrls = db.getProcessedUrls();
+    console.log(`\nPreviously processed URLs: ${processedUrls.size}`);
+
+    // Apply include/exclude rules before deduplication
+    const itemFilter = new ItemFilter(config.filters, config.feeds);
+    const filteredItems = itemFilter.apply(allItems);
+    const filterReport = itemFilter.getReport();
+
+    if (filterReport.length > 0) {
+      console.log(`\nFilters:`);
+      console.log(`  Items dropped: ${allItems.length - filteredItems.length}`);
+      for (const entry of filterReport) {
+        console.log(`  [${entry.scope}] ${entry.rule}: ${entry.dropped} dropped`);
+      }
+    }
+
+    // Filter out already processed items, and repeats of the same link within this run
+    const seenUrls = new Set<string>();
+    const duplicates: FeedItem[] = [];
+    const newItems = filteredItems.filter(item => {
+      const canonicalUrl = canonicalizer.canonicalize(item.link);
+      if (processedUrls.has(canonicalUrl) || seenUrls.has(canonicalUrl)) {
+        duplicates.push(item);
+        return false;
+      }
+      seenUrls.add(canonicalUrl);
+      return true;
+    });
+
+    console.log(`\nDeduplication:`);
+    console.log(`  New items: ${newItems.length}`);
+    console.log(`  Duplicates removed: ${duplicates.length}`);
+
+    // Group coverage of the same story from different sources
+    const { items: stories, merged, attached } = this.clusterer.cluster(newItems);
+
+    console.log(`\nStory clustering:`);
+    console.log(`  Stories: ${stories.length}`);
+    console.log(`  Merged into another source's story: ${merged}`);
+    console.log(`  Attached to earlier stories: ${attached.length}`);
+
+    // Rank stories; the score drives both selection and the order within categories
+    const scorer = new ItemScorer(config.scoring, config.feeds);
+    const scores = scorer.scoreAll(stories);
+
+    if (scorer.enabled && stories.length > 0) {
+      const totals = Array.from(scores.values()).map(s => s.total);
+      console.log(`\nScoring:`);
+      console.log(`  Scores from ${Math.min(...totals)} to ${Math.max(...totals)}`);
+    }
+
+    // Spread the maxTotalItems budget across feeds and categories
+    const selector = new ItemSelector(config.selection, config.newsletter.maxTotalItems, config.feeds);
+    const { selected, cut, shortfalls } = selector.select(stories);
+
+    console.log(`\nSelection (${selector.strategy}):`);
+    console.log(`  Items for newsletter: ${selected.length}`);
+    for (const reason of ['total-limit', 'feed-share', 'category-max'] as const) {
+      const count = cut.filter(c => c.reason === reason).length;
+      if (count > 0) {
+        console.log(`  Cut (${reason}): ${count}`);
+      }
+    }
+    for (const shortfall of shortfalls) {
+      console.log(`  ${shortfall.category}: only ${shortfall.selected} of the minimum ${shortfall.min} available`);
+    }
+
+    return {
+      results,
+      skippedFeeds,
+      allItems,
+      filtered: itemFilter.getDroppedItems(),
+      filterReport,
+      duplicates,
+      newItems,
+      merged,
+      attached,
+      scores,
+      selected,
+      cut,
+      shortfalls
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  ArchiveModel,
+  ArchiveMonthModel,
+  ArchiveYearModel,
+  EditionModel,
+  NewsletterIndexModel,
+  RollupIndexModel,
+  RollupModel,
+  SearchModel
+} from './edition.js';
+import { CompiledTemplate, TemplateError, compileTemplate, renderTemplate } from './templateEngine.js';
+
+export interface Renderer {
+  renderEdition(edition: EditionModel): string;
+  renderArchive(archive: ArchiveModel): string;
+  renderArchiveYear(archive: ArchiveYearModel): string;
+  renderArchiveMonth(archive: ArchiveMonthModel): string;
+  renderSearch(search: SearchModel): string;
+  renderNewsletterIndex(index: NewsletterIndexModel): string;
+  renderRollup(rollup: RollupModel): string;
+  renderRollupIndex(index: RollupIndexModel): string;
+}
+
+// themes/ sits next to src/ and dist/, so this resolves from either
+export const DEFAULT_THEME_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'themes', 'default');
+
+/**
+ * Renders pages from a theme directory:
+ *
+ *   layouts/edition.html   the daily newsletter
+ *   layouts/archive.html   the archive index
+ *   layouts/archive-year.html, layouts/archive-month.html
+ *                          calendars of one year and one month
+ *   layouts/search.html    the search page
+ *   layouts/rollup.html    a weekly or monthly roll-up
+ *   layouts/rollup-index.html
+ *                          the list of roll-ups of one cadence
+ *   layouts/newsletters.html
+ *                          the list of newsletters, when there are several
+ *   partials/<name>.html   included with {{> name}}
+ *   styles/<name>.css      available to templates as {{{styles.name}}}
+ *
+ * A theme only needs the files it changes; anything missing is taken from
+ * the built-in default theme.
+ */
+export class TemplateRenderer implements Renderer {
+  private themeDirs: string[];
+  private templates = new Map<string, CompiledTemplate>();
+  private styles: Record<string, string> | null = null;
+
+  constructor(themeDir?: string) {
+    if (themeDir && !fs.existsSync(themeDir)) {
+      throw new TemplateError(themeDir, null, 'Theme directory not found');
+    }
+
+    this.themeDirs = themeDir && path.resolve(themeDir) !== DEFAULT_THEME_DIR
+      ? [path.resolve(themeDir), DEFAULT_THEME_DIR]
+      : [DEFAULT_THEME_DIR];
+
+    // Compile every partial up front, so a broken one fails even on a day
+    // when nothing happens to use it
+    for (const dir of this.themeDirs) {
+      const partialsDir = path.join(dir, 'partials');
+      if (!fs.existsSync(partialsDir)) continue;
+      for (const file of fs.readdirSync(partialsDir).filter(f => f.endsWith('.html'))) {
+        this.loadTemplate(path.join('partials', file));
+      }
+    }
+  }
+
+  private findFile(relativePath: string): string | null {
+    for (const dir of this.themeDirs) {
+      const file = path.join(dir, relativePath);
+      if (fs.existsSync(file)) return file;
+    }
+    return null;
+  }
+
+  private loadTemplate(relativePath: string): CompiledTemplate | undefined {
+    if (!this.templates.has(relativePath)) {
+      const file = this.findFile(relativePath);
+      if (!file) return undefined;
+      this.templates.set(relativePath, compileTemplate(fs.readFileSync(file, 'utf-8'), file));
+    }
+    return this.templates.get(relativePath);
+  }
+
+  private loadStyles(): Record<string, string> {
+    if (!this.styles) {
+      this.styles = {};
+      // Default theme first, so a theme's stylesheet replaces the one of the same name
+      for (const dir of [...this.themeDirs].reverse()) {
+        const stylesDir = path.join(dir, 'styles');
+        if (!fs.existsSync(stylesDir)) continue;
+        for (const file of fs.readdirSync(stylesDir).filter(f => f.endsWith('.css'))) {
+          this.styles[path.basename(file, '.css')] = fs.readFileSync(path.join(stylesDir, file), 'utf-8');
+        }
+      }
+    }
+    return this.styles;
+  }
+
+  private render(layout: string, view: object): string {
+    const relativePath = path.join('layouts', `${layout}.html`);
+    const template = this.loadTemplate(relativePath);
+    if (!template) {
+      throw new TemplateError(relativePath, null, `Layout "${layout}" not found in ${this.themeDirs.join(' or ')}`);
+    }
+
+    return renderTemplate(
+      template,
+      { ...view, styles: this.loadStyles() },
+      name => this.loadTemplate(path.join('partials', `${name}.html`)),
+      relativePath
+    );
+  }
+
+  renderEdition(edition: EditionModel): string {
+    return this.render('edition', edition);
+  }
+
+  renderArchive(archive: ArchiveModel): string {
+    return this.render('archive', archive);
+  }
+
+  renderArchiveYear(archive: ArchiveYearModel): string {
+    return this.render('archive-year', archive);
+  }
+
+  renderArchiveMonth(archive: ArchiveMonthModel): string {
+    return this.render('archive-month', archive);
+  }
+
+  renderSearch(search: SearchModel): string {
+    return this.render('search', search);
+  }
+
+  renderNewsletterIndex(index: NewsletterIndexModel): string {
+    return this.render('newsletters', index);
+  }
+
+  renderRollup(rollup: RollupModel): string {
+    return this.render('rollup', rollup);
+  }
+
+  renderRollupIndex(index: RollupIndexModel): string {
+    return this.render('rollup-index', index);
+  }
+}
@@ -0,0 +1,51 @@
+import { Config, RollupConfig, RollupRecord } from './types.js';
+import { DatabaseManager } from './database.js';
+import { ItemSelector } from './itemSelector.js';
+import { RollupPeriod } from './edition.js';
+
+export const DEFAULT_ROLLUP_CONFIG: RollupConfig = {
+  maxItems: 20,
+  email: true
+};
+
+/**
+ * Builds weekly and monthly roll-ups from the daily editions stored for a
+ * period. Their stories were fetched, deduplicated and scored when they
+ * were published, so a roll-up only ranks them again: by stored score,
+ * within the newsletter's feed share and category quotas, up to maxItems.
+ */
+export class RollupBuilder {
+  private config: Config;
+  private db: DatabaseManager;
+
+  constructor(config: Config, db: DatabaseManager) {
+    this.config = config;
+    this.db = db;
+  }
+
+  /** Null when no edition with any stories was published in the period. */
+  build(period: RollupPeriod, now: Date = new Date()): RollupRecord | null {
+    const rollupConfig = this.config.newsletter.editions[period.cadence] || DEFAULT_ROLLUP_CONFIG;
+    const editionDates = this.db.getEditionSummaries()
+      .filter(e => e.date >= period.start && e.date <= period.end && e.itemCount > 0)
+      .map(e => e.date)
+      .reverse();
+    if (editionDates.length === 0) return null;
+
+    const candidates = editionDates.flatMap(date => this.db.getEdition(date)?.items || []);
+    const selector = new ItemSelector(
+      { ...this.config.selection, strategy: 'ranked' },
+      rollupConfig.maxItems,
+      this.config.feeds
+    );
+
+    return {
+      cadence: period.cadence,
+      period: period.key,
+      generatedAt: now,
+      editionDates,
+      candidateCount: candidates.length,
+      items: selector.select(candidates).selected
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { FeedItem, SearchDocument } from './types.js';
+import { editionFilename } from './edition.js';
+
+export const SEARCH_INDEX_FILE = 'search-index.json';
+
+/** One entry of the JSON index that search.html loads in the browser. */
+export interface SearchIndexEntry {
+  title: string;
+  link: string;
+  description: string;
+  author?: string;
+  feed: string;
+  category: string;
+  published: string;
+  edition: string;
+}
+
+/**
+ * Turns what a user typed into an FTS5 query. Every word must match, a
+ * trailing * matches by prefix, and "quoted text" matches as a phrase;
+ * everything else that FTS5 would read as syntax is ignored. Returns null
+ * when nothing searchable is left.
+ */
+export function toMatchQuery(input: string): string | null {
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|([\p{L}\p{N}_]+)(\*?)/gu)) {
+    const [, phrase, word, prefix] = match;
+    if (phrase !== undefined) {
+      const words = phrase.match(/[\p{L}\p{N}_]+/gu);
+      if (words) terms.push(`"${words.join(' ')}"`);
+    } else {
+      terms.push(`"${word}"${prefix}`);
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+export function toSearchDocuments(
+  items: FeedItem[],
+  canonicalize: (item: FeedItem) => string,
+  editionDate: string
+): SearchDocument[] {
+  return items.map(item => ({
+    url: canonicalize(item),
+    link: item.link,
+    title: item.title,
+    description: item.description,
+    author: item.author,
+    feedName: item.feedName,
+    category: item.category,
+    publishedAt: new Date(item.pubDate).toISOString(),
+    editionDate
+  }));
+}
+
+/** Only http(s) links are put on the page; a feed could supply a javascript: one. */
+function isWebLink(link: string): boolean {
+  return /^https?:\/\//i.test(link);
+}
+
+/**
+ * The index search.html loads. Articles whose link is not http(s) link to
+ * their edition instead.
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndexEntry[] {
+  return documents.map(doc => ({
+    title: doc.title,
+    link: isWebLink(doc.link) ? doc.link : editionFilename(doc.editionDate),
+    description: doc.description,
+    author: doc.author,
+    feed: doc.feedName,
+    category: doc.category,
+    published: doc.publishedAt.split('T')[0],
+    edition: editionFilename(doc.editionDate)
+  }));
+}
@@ -0,0 +1,271 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { SmtpConfig } from './types.js';
+
+export const DEFAULT_SMTP_CONFIG: Omit<SmtpConfig, 'host'> = {
+  port: 587,
+  secure: false,
+  startTls: true,
+  userEnv: 'SMTP_USER',
+  passwordEnv: 'SMTP_PASSWORD',
+  timeout: 30000
+};
+
+export interface SmtpCredentials {
+  user: string;
+  password: string;
+}
+
+export interface SmtpSendResult {
+  accepted: string[];
+  rejected: { recipient: string; reply: string }[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  readonly code: number | null;
+
+  constructor(message: string, code: number | null = null) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+/**
+ * A minimal SMTP client: EHLO, STARTTLS or implicit TLS, AUTH PLAIN/LOGIN
+ * and a single message to one or more envelope recipients. Commands that
+ * carry credentials are never included in error messages.
+ */
+export class SmtpClient {
+  private config: SmtpConfig;
+  private credentials: SmtpCredentials | null;
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(config: SmtpConfig, credentials: SmtpCredentials | null = null) {
+    this.config = config;
+    this.credentials = credentials;
+  }
+
+  async send(from: string, recipients: string[], message: string): Promise<SmtpSendResult> {
+    await this.connect();
+
+    try {
+      await this.expect(await this.readReply(), [220], 'greeting');
+      let capabilities = await this.hello();
+
+      if (!this.config.secure && this.config.startTls) {
+        if (capabilities.has('STARTTLS')) {
+          await this.expect(await this.command('STARTTLS'), [220], 'STARTTLS');
+          await this.upgrade();
+          capabilities = await this.hello();
+        } else if (this.credentials) {
+          throw new SmtpError(`${this.config.host} does not offer STARTTLS; refusing to send credentials unencrypted`);
+        }
+      }
+
+      if (this.credentials) {
+        await this.authenticate(capabilities.get('AUTH') || '');
+      }
+
+      await this.expect(await this.command(`MAIL FROM:<${from}>`), [250], 'MAIL FROM');
+
+      const result: SmtpSendResult = { accepted: [], rejected: [] };
+      for (const recipient of recipients) {
+        const reply = await this.command(`RCPT TO:<${recipient}>`);
+        if (reply.code === 250 || reply.code === 251) {
+          result.accepted.push(recipient);
+        } else {
+          result.rejected.push({ recipient, reply: this.describe(reply) });
+        }
+      }
+
+      if (result.accepted.length === 0) {
+        await this.command('RSET');
+        throw new SmtpError('Every recipient was rejected');
+      }
+
+      await this.expect(await this.command('DATA'), [354], 'DATA');
+      this.write(`${this.dotStuff(message)}.\r\n`);
+      await this.expect(await this.readReply(), [250], 'message');
+
+      await this.command('QUIT').catch(() => undefined);
+      return result;
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private connect(): Promise<void> {
+    this.buffer = '';
+    this.pendingLines = [];
+    this.replies = [];
+    this.failure = null;
+
+    return new Promise((resolve, reject) => {
+      const { host, port, secure } = this.config;
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      const onError = (error: Error) => reject(new SmtpError(`Could not connect to ${host}:${port}: ${error.message}`));
+      socket.once('error', onError);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        this.attach(socket);
+        resolve();
+      });
+      socket.setTimeout(this.config.timeout, () => {
+        socket.destroy(new Error(`no response within ${this.config.timeout}ms`));
+      });
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onFailure);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onFailure);
+    socket.off('close', this.onClose);
+  }
+
+  private upgrade(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const plain = this.socket!;
+      this.detach(plain);
+
+      const secure = tls.connect({ socket: plain, servername: this.config.host });
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf-8');
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.pendingLines.map(l => l.slice(4))
+        });
+        this.pendingLines = [];
+        this.deliver();
+      }
+    }
+  };
+
+  private onFailure = (error: Error): void => {
+    this.failure = this.failure || new SmtpError(`SMTP connection to ${this.config.host} failed: ${error.message}`);
+    if (this.waiter) {
+      this.waiter.reject(this.failure);
+      this.waiter = null;
+    }
+  };
+
+  private onClose = (): void => {
+    this.onFailure(new Error('connection closed'));
+  };
+
+  private deliver(): void {
+    if (this.waiter && this.replies.length > 0) {
+      this.waiter.resolve(this.replies.shift()!);
+      this.waiter = null;
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      if (this.replies.length > 0) {
+        resolve(this.replies.shift()!);
+      } else if (this.failure) {
+        reject(this.failure);
+      } else {
+        this.waiter = { resolve, reject };
+      }
+    });
+  }
+
+  private write(data: string): void {
+    if (!this.socket) {
+      throw new SmtpError('Not connected');
+    }
+    this.socket.write(data);
+  }
+
+  private command(line: string): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.readReply();
+  }
+
+  private describe(reply: SmtpReply): string {
+    return `${reply.code} ${reply.lines.join(' ')}`.trim();
+  }
+
+  private async expect(reply: SmtpReply, codes: number[], step: string): Promise<SmtpReply> {
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`Unexpected reply to ${step}: ${this.describe(reply)}`, reply.code);
+    }
+    return reply;
+  }
+
+  /** Sends EHLO and returns the advertised extensions, keyed by keyword. */
+  private async hello(): Promise<Map<string, string>> {
+    const reply = await this.expect(await this.command(`EHLO ${os.hostname() || 'localhost'}`), [250], 'EHLO');
+    const capabilities = new Map<string, string>();
+    for (const line of reply.lines.slice(1)) {
+      const [keyword, ...params] = line.split(' ');
+      capabilities.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+    }
+    return capabilities;
+  }
+
+  private async authenticate(mechanisms: string): Promise<void> {
+    const { user, password } = this.credentials!;
+    const encode = (value: string) => Buffer.from(value, 'utf-8').toString('base64');
+    const offered = mechanisms.split(' ');
+
+    if (offered.includes('PLAIN')) {
+      await this.expect(await this.command(`AUTH PLAIN ${encode(`\0${user}\0${password}`)}`), [235], 'AUTH PLAIN');
+    } else if (offered.includes('LOGIN')) {
+      await this.expect(await this.command('AUTH LOGIN'), [334], 'AUTH LOGIN');
+      await this.expect(await this.command(encode(user)), [334], 'AUTH LOGIN user name');
+      await this.expect(await this.command(encode(password)), [235], 'AUTH LOGIN password');
+    } else {
+      throw new SmtpError(`${this.config.host} offers no supported AUTH mechanism (got "${mechanisms || 'none'}")`);
+    }
+  }
+
+  /** Lines starting with "." are doubled so they cannot end the DATA section early. */
+  private dotStuff(message: string): string {
+    const normalized = message.replace(/\r?\n/g, '\r\n');
+    const stuffed = normalized.replace(/^\./gm, '..');
+    return stuffed.endsWith('\r\n') ? stuffed : `${stuffed}\r\n`;
+  }
+}
@@ -0,0 +1,173 @@
+import { ClusteringConfig, FeedItem } from './types.js';
+import { DatabaseManager } from './database.js';
+
+export const DEFAULT_CLUSTERING_CONFIG: ClusteringConfig = {
+  enabled: true,
+  threshold: 0.35,
+  shingleSize: 1,
+  windowDays: 3
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how',
+  'in', 'is', 'it', 'its', 'new', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Only the opening of a description says what the story is about
+const MAX_DESCRIPTION_TOKENS = 40;
+
+interface Cluster {
+  id: number | null;
+  lead: FeedItem | null;
+  feeds: Set<string>;
+  shingles: Set<string>;
+}
+
+export interface ClusteringResult {
+  items: FeedItem[];
+  merged: number;
+  attached: FeedItem[];
+}
+
+/**
+ * Groups near-duplicate items from different sources into story clusters by
+ * comparing normalized token shingles of their titles and descriptions.
+ * Clusters are stored, so a later item about a story that was already
+ * published is attached to it instead of being shown again.
+ */
+export class StoryClusterer {
+  private db: DatabaseManager;
+  private config: ClusteringConfig;
+  private attachments = new Map<FeedItem, number>();
+
+  constructor(db: DatabaseManager, config: Partial<ClusteringConfig> = {}) {
+    this.db = db;
+    this.config = { ...DEFAULT_CLUSTERING_CONFIG, ...config };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1 && !STOPWORDS.has(token));
+  }
+
+  getShingles(item: FeedItem): Set<string> {
+    const tokens = [
+      ...this.tokenize(item.title),
+      ...this.tokenize(item.description).slice(0, MAX_DESCRIPTION_TOKENS)
+    ];
+    const size = Math.max(1, this.config.shingleSize);
+    const shingles = new Set<string>();
+
+    for (let i = 0; i + size <= tokens.length; i++) {
+      shingles.add(tokens.slice(i, i + size).join(' '));
+    }
+
+    return shingles;
+  }
+
+  private similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+
+    let shared = 0;
+    for (const shingle of a) {
+      if (b.has(shingle)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  private findMatch(clusters: Cluster[], item: FeedItem, shingles: Set<string>): Cluster | null {
+    let best: Cluster | null = null;
+    let bestScore = this.config.threshold;
+
+    for (const cluster of clusters) {
+      // Only other sources count as coverage of the same story
+      if (cluster.feeds.has(item.feedName)) continue;
+
+      const score = this.similarity(shingles, cluster.shingles);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Folds near-duplicates into the first item of their story, which gets an
+   * `alsoCoveredBy` list. Items matching a stored cluster are returned as
+   * `attached` and left out of `items`.
+   */
+  cluster(items: FeedItem[]): ClusteringResult {
+    if (!this.config.enabled) {
+      return { items, merged: 0, attached: [] };
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - this.config.windowDays);
+    const stored: Cluster[] = this.db.getRecentClusters(since.toISOString()).map(c => ({
+      id: c.id,
+      lead: null,
+      feeds: new Set(c.feedNames),
+      shingles: new Set(c.signature)
+    }));
+
+    const current: Cluster[] = [];
+    const leads: FeedItem[] = [];
+    const attached: FeedItem[] = [];
+    let merged = 0;
+
+    for (const item of items) {
+      const shingles = this.getShingles(item);
+
+      const previous = this.findMatch(stored, item, shingles);
+      if (previous) {
+        previous.feeds.add(item.feedName);
+        this.attachments.set(item, previous.id!);
+        attached.push(item);
+        continue;
+      }
+
+      const match = this.findMatch(current, item, shingles);
+      if (match) {
+        match.feeds.add(item.feedName);
+        match.lead!.alsoCoveredBy = [...(match.lead!.alsoCoveredBy || []), item];
+        merged++;
+        continue;
+      }
+
+      current.push({ id: null, lead: item, feeds: new Set([item.feedName]), shingles });
+      leads.push(item);
+    }
+
+    return { items: leads, merged, attached };
+  }
+
+  /**
+   * Stores the clusters of the published items and the items that were
+   * attached to earlier stories. `urlFor` maps an item to its stored URL.
+   */
+  record(published: FeedItem[], attached: FeedItem[], urlFor: (item: FeedItem) => string): void {
+    if (!this.config.enabled) return;
+
+    for (const lead of published) {
+      const clusterId = this.db.createCluster(lead.title, urlFor(lead), [...this.getShingles(lead)]);
+      for (const member of [lead, ...(lead.alsoCoveredBy || [])]) {
+        this.db.addClusterMember(clusterId, urlFor(member), member.feedName, member.title);
+      }
+    }
+
+    for (const item of attached) {
+      const clusterId = this.attachments.get(item);
+      if (clusterId !== undefined) {
+        this.db.addClusterMember(clusterId, urlFor(item), item.feedName, item.title);
+      }
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import { EditionRecord, FeedItem, NewsletterConfig } from './types.js';
+import { Messages, formatMessage, messagesFor } from './messages.js';
+import { editionFilename } from './edition.js';
+
+export interface SyndicationEntry {
+  id: string;
+  url: string;
+  externalUrl?: string;
+  title: string;
+  contentHtml: string;
+  summary: string;
+  datePublished: string;
+  author?: string;
+  tags: string[];
+}
+
+/** The fields of a feed.json item that are read back. */
+interface JsonFeedItem {
+  id: string;
+  url: string;
+  external_url?: string;
+  title: string;
+  content_html: string;
+  summary?: string;
+  date_published: string;
+  authors?: { name: string }[];
+  tags?: string[];
+}
+
+const GENERATOR = 'RSS Newsletter Generator';
+
+/**
+ * Publishes the newsletter itself as RSS 2.0 (feed.xml), Atom (atom.xml) and
+ * JSON Feed 1.1 (feed.json). The entries are built from the most recent
+ * stored editions, so the history does not depend on the previous output
+ * surviving; the three formats always carry the same entries.
+ */
+export class SyndicationWriter {
+  private config: NewsletterConfig;
+  private outputDir: string;
+  private messages: Messages;
+
+  constructor(config: NewsletterConfig, outputDir: string) {
+    this.config = config;
+    this.outputDir = outputDir;
+    this.messages = messagesFor(config.locale);
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Absolute when `siteUrl` is configured; feed readers resolve relative
+   * links inconsistently, so relative links are only a fallback.
+   */
+  private absoluteUrl(file: string): string {
+    if (!this.config.siteUrl) return file;
+    return new URL(file, this.config.siteUrl.replace(/\/?$/, '/')).toString();
+  }
+
+  private sourcesOf(item: FeedItem): string {
+    return [item.feedName, ...(item.alsoCoveredBy || []).map(other => other.feedName)].join(', ');
+  }
+
+  private buildEditionEntry(edition: EditionRecord): SyndicationEntry {
+    const { items, date } = edition;
+    const archiveFile = editionFilename(date);
+    const categories = new Map<string, FeedItem[]>();
+    for (const item of items) {
+      const category = item.category || 'Uncategorized';
+      categories.set(category, [...(categories.get(category) || []), item]);
+    }
+
+    const contentHtml = items.length === 0
+      ? `<p>${this.messages.noNewArticles}.</p>`
+      : Array.from(categories.entries()).map(([category, categoryItems]) => `<h3>${this.escapeXml(category)}</h3>
+<ul>
+${categoryItems.map(item => `<li><a href="${this.escapeXml(item.link)}">${this.escapeXml(item.title)}</a> (${this.escapeXml(this.sourcesOf(item))})</li>`).join('\n')}
+</ul>`).join('\n');
+
+    return {
+      id: this.absoluteUrl(archiveFile),
+      url: this.absoluteUrl(archiveFile),
+      title: `${this.config.title} - ${date}`,
+      contentHtml,
+      summary: formatMessage(this.messages.articlesFromSources, {
+        count: items.length,
+        sources: new Set(items.map(i => i.feedName)).size
+      }),
+      datePublished: edition.stats.generatedAt.toISOString(),
+      author: this.config.author,
+      tags: Array.from(categories.keys())
+    };
+  }
+
+  private buildItemEntries(items: FeedItem[], archiveFile: string): SyndicationEntry[] {
+    return items.map(item => ({
+      id: `${this.absoluteUrl(archiveFile)}#item-${item.id}`,
+      url: `${this.absoluteUrl(archiveFile)}#item-${item.id}`,
+      externalUrl: item.link,
+      title: item.title,
+      contentHtml: `<p>${this.escapeXml(item.description)}</p>
+<p><a href="${this.escapeXml(item.link)}">${this.escapeXml(formatMessage(this.messages.readOn, { feed: item.feedName }))}</a></p>`,
+      summary: item.description,
+      datePublished: new Date(item.pubDate).toISOString(),
+      author: item.author,
+      tags: [item.category]
+    }));
+  }
+
+  /**
+   * The entries of the previous feed.json, for editions published before
+   * editions were stored in the database.
+   */
+  private readExistingEntries(): SyndicationEntry[] {
+    const jsonPath = path.join(this.outputDir, 'feed.json');
+    if (!fs.existsSync(jsonPath)) return [];
+
+    try {
+      const feed = JSON.parse(fs.readFileSync(jsonPath, 'utf-8')) as { items?: JsonFeedItem[] };
+      return (feed.items || []).map((item): SyndicationEntry => ({
+        id: item.id,
+        url: item.url,
+        externalUrl: item.external_url,
+        title: item.title,
+        contentHtml: item.content_html,
+        summary: item.summary || '',
+        datePublished: item.date_published,
+        author: item.authors?.[0]?.name,
+        tags: item.tags || []
+      }));
+    } catch {
+      console.warn(`Could not read ${jsonPath}; starting a new feed history`);
+      return [];
+    }
+  }
+
+  renderRss(entries: SyndicationEntry[], updated: Date): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${this.escapeXml(this.config.title)}</title>
+    <link>${this.escapeXml(this.absoluteUrl('index.html'))}</link>
+    <description>${this.escapeXml(this.config.description)}</description>
+    <atom:link href="${this.escapeXml(this.absoluteUrl('feed.xml'))}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+    <language>${this.escapeXml(this.config.locale)}</language>
+    <generator>${GENERATOR}</generator>
+${entries.map(entry => `    <item>
+      <title>${this.escapeXml(entry.title)}</title>
+      <link>${this.escapeXml(entry.url)}</link>
+      <guid isPermaLink="${this.config.siteUrl ? 'true' : 'false'}">${this.escapeXml(entry.id)}</guid>
+      <pubDate>${new Date(entry.datePublished).toUTCString()}</pubDate>
+${entry.tags.map(tag => `      <category>${this.escapeXml(tag)}</category>`).join('\n')}
+      <description>${this.escapeXml(entry.contentHtml)}</description>
+    </item>`).join('\n')}
+  </channel>
+</rss>
+`;
+  }
+
+  renderAtom(entries: SyndicationEntry[], updated: Date): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${this.escapeXml(this.config.locale)}">
+  <title>${this.escapeXml(this.config.title)}</title>
+  <subtitle>${this.escapeXml(this.config.description)}</subtitle>
+  <id>${this.escapeXml(this.absoluteUrl('atom.xml'))}</id>
+  <link rel="self" type="application/atom+xml" href="${this.escapeXml(this.absoluteUrl('atom.xml'))}" />
+  <link rel="alternate" type="text/html" href="${this.escapeXml(this.absoluteUrl('index.html'))}" />
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${this.escapeXml(this.config.author)}</name></author>
+  <generator>${GENERATOR}</generator>
+${entries.map(entry => `  <entry>
+    <title>${this.escapeXml(entry.title)}</title>
+    <id>${this.escapeXml(entry.id)}</id>
+    <link rel="alternate" type="text/html" href="${this.escapeXml(entry.url)}" />
+${entry.externalUrl ? `    <link rel="related" href="${this.escapeXml(entry.externalUrl)}" />\n` : ''}    <published>${entry.datePublished}</published>
+    <updated>${entry.datePublished}</updated>
+${entry.author ? `    <author><name>${this.escapeXml(entry.author)}</name></author>\n` : ''}${entry.tags.map(tag => `    <category term="${this.escapeXml(tag)}" />`).join('\n')}
+    <summary>${this.escapeXml(entry.summary)}</summary>
+    <content type="html">${this.escapeXml(entry.contentHtml)}</content>
+  </entry>`).join('\n')}
+</feed>
+`;
+  }
+
+  renderJsonFeed(entries: SyndicationEntry[]): string {
+    const feed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: this.config.title,
+      description: this.config.description,
+      home_page_url: this.absoluteUrl('index.html'),
+      feed_url: this.absoluteUrl('feed.json'),
+      language: this.config.locale,
+      authors: [{ name: this.config.author }],
+      items: entries.map(entry => ({
+        id: entry.id,
+        url: entry.url,
+        ...(entry.externalUrl ? { external_url: entry.externalUrl } : {}),
+        title: entry.title,
+        content_html: entry.contentHtml,
+        summary: entry.summary,
+        date_published: entry.datePublished,
+        ...(entry.author ? { authors: [{ name: entry.author }] } : {}),
+        tags: entry.tags
+      }))
+    };
+    return JSON.stringify(feed, null, 2) + '\n';
+  }
+
+  /** `editions` are the most recent stored editions, newest first. */
+  write(editions: EditionRecord[], date: Date): void {
+    if (!this.config.siteUrl) {
+      console.warn('newsletter.siteUrl is not set; feed.xml, atom.xml and feed.json will use relative links');
+    }
+
+    const stored = editions.flatMap(edition => this.config.feedItemEntries
+      ? this.buildItemEntries(edition.items, editionFilename(edition.date))
+      : [this.buildEditionEntry(edition)]);
+
+    // Stored editions win over what the previous run wrote for them
+    const storedPages = new Set(editions.map(e => this.absoluteUrl(editionFilename(e.date))));
+    const earlier = this.readExistingEntries().filter(e => !storedPages.has(e.id.split('#')[0]));
+    const entries = [...stored, ...earlier]
+      .sort((a, b) => b.datePublished.localeCompare(a.datePublished))
+      .slice(0, this.config.feedMaxEntries);
+
+    fs.writeFileSync(path.join(this.outputDir, 'feed.xml'), this.renderRss(entries, date), 'utf-8');
+    fs.writeFileSync(path.join(this.outputDir, 'atom.xml'), this.renderAtom(entries, date), 'utf-8');
+    fs.writeFileSync(path.join(this.outputDir, 'feed.json'), this.renderJsonFeed(entries), 'utf-8');
+    console.log(`Feeds written to: feed.xml, atom.xml, feed.json (${entries.length} entries)`);
+  }
+}
@@ -0,0 +1,180 @@
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; escape: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: Node[]; line: number }
+  | { type: 'partial'; name: string; line: number };
+
+export type CompiledTemplate = Node[];
+
+export class TemplateError extends Error {
+  constructor(template: string, line: number | null, message: string) {
+    super(`${line === null ? template : `${template}:${line}`}: ${message}`);
+    this.name = 'TemplateError';
+  }
+}
+
+const TAG = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([#^/>!&]?)\s*([^}]*?)\s*\}\}/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+/**
+ * Parses a Mustache-style template. Supported tags: {{name}} (escaped),
+ * {{{name}}} and {{&name}} (raw), {{#name}}…{{/name}} sections,
+ * {{^name}}…{{/name}} inverted sections, {{> partial}} and {{! comments}}.
+ * Mistakes are reported with the template name and line.
+ */
+export function compileTemplate(source: string, templateName: string): CompiledTemplate {
+  const root: Node[] = [];
+  const stack: { name: string; children: Node[]; line: number }[] = [{ name: '', children: root, line: 0 }];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index!;
+    const children = stack[stack.length - 1].children;
+    if (index > position) {
+      children.push({ type: 'text', text: source.slice(position, index) });
+    }
+    position = index + match[0].length;
+
+    const line = lineAt(source, index);
+    if (match[1] !== undefined) {
+      children.push({ type: 'variable', name: match[1], escape: false });
+      continue;
+    }
+
+    const [, , sigil, name] = match;
+    if (sigil !== '!' && name === '') {
+      throw new TemplateError(templateName, line, `Empty tag "${match[0]}"`);
+    }
+
+    switch (sigil) {
+      case '!':
+        break;
+      case '&':
+        children.push({ type: 'variable', name, escape: false });
+        break;
+      case '>':
+        children.push({ type: 'partial', name, line });
+        break;
+      case '#':
+      case '^': {
+        const section: Node = { type: 'section', name, inverted: sigil === '^', children: [], line };
+        children.push(section);
+        stack.push({ name, children: section.children, line });
+        break;
+      }
+      case '/': {
+        const open = stack.pop()!;
+        if (stack.length === 0 || open.name !== name) {
+          throw new TemplateError(
+            templateName,
+            line,
+            stack.length === 0 ? `{{/${name}}} closes a section that was never opened` : `{{/${name}}} closes {{#${open.name}}} from line ${open.line}`
+          );
+        }
+        break;
+      }
+      default:
+        children.push({ type: 'variable', name, escape: true });
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw new TemplateError(templateName, open.line, `{{#${open.name}}} is never closed`);
+  }
+
+  if (position < source.length) {
+    root.push({ type: 'text', text: source.slice(position) });
+  }
+
+  return root;
+}
+
+/**
+ * Names are looked up from the innermost context outwards, so item
+ * templates can still reach top-level values such as {{newsletter.title}}.
+ * Inside a list, {{@index}}, {{@first}} and {{@last}} describe the position.
+ */
+function lookup(contexts: unknown[], name: string): unknown {
+  if (name === '.') return contexts[contexts.length - 1];
+
+  const [head, ...rest] = name.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context !== null && typeof context === 'object' && head in context) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (context as Record<string, unknown>)[head]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+export function renderTemplate(
+  template: CompiledTemplate,
+  view: object,
+  partials: (name: string) => CompiledTemplate | undefined,
+  templateName: string,
+  contexts: unknown[] = [view]
+): string {
+  let output = '';
+
+  for (const node of template) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+      case 'variable': {
+        const value = lookup(contexts, node.name);
+        const text = value === undefined || value === null ? '' : String(value);
+        output += node.escape ? escapeHtml(text) : text;
+        break;
+      }
+      case 'section': {
+        const value = lookup(contexts, node.name);
+        if (node.inverted) {
+          if (!isTruthy(value)) {
+            output += renderTemplate(node.children, view, partials, templateName, contexts);
+          }
+        } else if (Array.isArray(value)) {
+          value.forEach((entry, index) => {
+            const position = { '@index': index, '@first': index === 0, '@last': index === value.length - 1 };
+            output += renderTemplate(node.children, view, partials, templateName, [...contexts, position, entry]);
+          });
+        } else if (isTruthy(value)) {
+          const next = typeof value === 'object' ? [...contexts, value] : contexts;
+          output += renderTemplate(node.children, view, partials, templateName, next);
+        }
+        break;
+      }
+      case 'partial': {
+        const partial = partials(node.name);
+        if (!partial) {
+          throw new TemplateError(templateName, node.line, `Unknown partial "${node.name}"`);
+        }
+        output += renderTemplate(partial, view, partials, node.name, contexts);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
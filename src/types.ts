@@ -1,8 +1,60 @@
+export type FilterAction = 'include' | 'exclude';
+
+export type FilterMatchType = 'keyword' | 'regex' | 'author' | 'domain';
+
+export type FilterField = 'title' | 'description' | 'content';
+
+export interface MatchRule {
+  name?: string;
+  type: FilterMatchType;
+  value: string | string[];
+  fields?: FilterField[];
+  caseSensitive?: boolean;
+}
+
+export interface FilterRule extends MatchRule {
+  action: FilterAction;
+}
+
+export interface ScoringRule extends MatchRule {
+  points: number;
+}
+
+/**
+ * How a feed is read: 'rss' for RSS and Atom, 'json' for JSON Feed, both
+ * over http(s) or from a file:// URL, and 'markdown' for a file:// directory
+ * of Markdown files with front matter.
+ */
+export type FeedSourceType = 'rss' | 'json' | 'markdown';
+
+/** Credentials for a private feed, named by the environment variables that hold them. */
+export type FeedAuthConfig =
+  | { type: 'basic'; userEnv: string; passwordEnv: string }
+  | { type: 'bearer'; tokenEnv: string };
+
+/** How an http(s) feed is requested, for feeds that are private or picky. */
+export interface FeedRequestConfig {
+  /** Sent as given; the values are not treated as secrets. */
+  headers?: Record<string, string>;
+  /** Header names mapped to the environment variables that hold their values. */
+  headersFromEnv?: Record<string, string>;
+  auth?: FeedAuthConfig;
+  userAgent?: string;
+  /** Overrides fetch.timeout for this feed, in milliseconds. */
+  timeout?: number;
+  /** An http:// proxy, such as http://proxy.internal:3128, to tunnel through. */
+  proxy?: string;
+}
+
 export interface FeedConfig {
   name: string;
   url: string;
   category: string;
   enabled: boolean;
+  type?: FeedSourceType;
+  weight?: number;
+  filters?: FilterRule[];
+  request?: FeedRequestConfig;
 }
 
 export interface NewsletterConfig {
@@ -12,10 +64,135 @@ export interface NewsletterConfig {
   maxItemsPerFeed: number;
   maxTotalItems: number;
   retentionDays: number;
+  siteUrl?: string;
+  theme?: string;
+  /** BCP 47 tag such as "en-US"; chooses the date formats and the message catalog. */
+  locale: string;
+  /** IANA zone such as "Europe/Berlin" that times are shown in. */
+  timeZone: string;
+  feedItemEntries: boolean;
+  feedMaxEntries: number;
+  editions: EditionsConfig;
+}
+
+export type RollupCadence = 'weekly' | 'monthly';
+
+export interface RollupConfig {
+  maxItems: number;
+  email: boolean;
+}
+
+/**
+ * The editions a newsletter publishes. There is always a daily edition,
+ * since roll-ups are built from it; a weekly or monthly roll-up only when
+ * it is configured.
+ */
+export interface EditionsConfig {
+  daily: { email: boolean };
+  weekly?: RollupConfig;
+  monthly?: RollupConfig;
+}
+
+export interface FetchConfig {
+  timeout: number;
+  concurrency: number;
+  perHostConcurrency: number;
+  perHostDelayMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export interface HealthConfig {
+  window: number;
+  degradedBelow: number;
+  quarantineAfter: number;
+  probeIntervalDays: number;
+}
+
+export interface CanonicalizationConfig {
+  stripParams: string[];
+  forceHttps: boolean;
+  stripWww: boolean;
+  stripTrailingSlash: boolean;
+  stripAmp: boolean;
+}
+
+export interface ClusteringConfig {
+  enabled: boolean;
+  threshold: number;
+  shingleSize: number;
+  windowDays: number;
+}
+
+export interface ScoringConfig {
+  enabled: boolean;
+  recencyWeight: number;
+  recencyHalfLifeHours: number;
+  coverageWeight: number;
+  descriptionWeight: number;
+  descriptionLength: number;
+  rules: ScoringRule[];
+}
+
+export type SelectionStrategy = 'round-robin' | 'weighted' | 'ranked';
+
+export interface CategoryQuota {
+  min?: number;
+  max?: number;
+}
+
+export interface SelectionConfig {
+  strategy: SelectionStrategy;
+  maxFeedShare: number;
+  categories: Record<string, CategoryQuota>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  startTls: boolean;
+  userEnv: string;
+  passwordEnv: string;
+  timeout: number;
+}
+
+export interface EmailConfig {
+  from: string;
+  subscribers: string[];
+  subject: string;
+  replyTo?: string;
+  smtp: SmtpConfig;
+}
+
+/**
+ * One of several newsletters built from the same feeds. `feeds` and
+ * `categories` choose its feeds (all of them when both are missing);
+ * `output` is its subdirectory of the output directory, and newsletters
+ * with the same `dedupNamespace` never repeat each other's items.
+ */
+export interface NewsletterDefinition {
+  id: string;
+  newsletter: NewsletterConfig;
+  feeds?: string[];
+  categories?: string[];
+  output: string;
+  dedupNamespace: string;
+  email?: EmailConfig;
 }
 
 export interface Config {
   newsletter: NewsletterConfig;
+  newsletters?: NewsletterDefinition[];
+  email?: EmailConfig;
+  fetch?: Partial<FetchConfig>;
+  health?: Partial<HealthConfig>;
+  canonicalization?: Partial<CanonicalizationConfig>;
+  clustering?: Partial<ClusteringConfig>;
+  scoring?: Partial<ScoringConfig>;
+  selection?: Partial<SelectionConfig>;
+  filters?: FilterRule[];
   feeds: FeedConfig[];
   categories: string[];
 }
@@ -29,6 +206,9 @@ export interface FeedItem {
   feedName: string;
   category: string;
   author?: string;
+  content?: string;
+  alsoCoveredBy?: FeedItem[];
+  score?: number;
 }
 
 export interface ProcessedItem {
@@ -37,11 +217,116 @@ export interface ProcessedItem {
   feedName: string;
 }
 
+export type FetchErrorKind = 'network' | 'timeout' | 'http-status' | 'parse' | 'invalid-content' | 'auth';
+
 export interface FetchResult {
   feedName: string;
   success: boolean;
   items: FeedItem[];
+  fromCache: boolean;
   error?: string;
+  errorKind?: FetchErrorKind;
+  /** Validators to remember once the run has published the items */
+  cacheUpdate?: FeedCacheUpdate;
+}
+
+/** The conditional GET validators of a download, as saved to feed_cache. */
+export interface FeedCacheUpdate {
+  url: string;
+  feedName: string;
+  etag: string | null;
+  lastModified: string | null;
+  bodyHash: string;
+}
+
+export interface FeedCacheEntry {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  bodyHash: string | null;
+  updatedAt: string;
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  feedWeight: number;
+  recency: number;
+  coverage: number;
+  description: number;
+  rules: { rule: string; points: number }[];
+}
+
+export interface StoredItemScore {
+  scoredAt: string;
+  url: string;
+  feedName: string;
+  title: string;
+  category: string;
+  selected: boolean;
+  breakdown: ScoreBreakdown;
+}
+
+/** A published item as kept for full-text search, beyond retentionDays. */
+export interface SearchDocument {
+  url: string;
+  link: string;
+  title: string;
+  description: string;
+  author?: string;
+  feedName: string;
+  category: string;
+  publishedAt: string;
+  editionDate: string;
+}
+
+export interface SearchResult extends SearchDocument {
+  snippet: string;
+}
+
+export type SelectionCutReason = 'total-limit' | 'feed-share' | 'category-max';
+
+export interface CutItem {
+  item: FeedItem;
+  reason: SelectionCutReason;
+}
+
+export interface CategoryShortfall {
+  category: string;
+  min: number;
+  selected: number;
+}
+
+export interface FilterRuleReport {
+  rule: string;
+  scope: string;
+  dropped: number;
+}
+
+export interface StoredCluster {
+  id: number;
+  signature: string[];
+  feedNames: string[];
+}
+
+export interface FeedStatsRecord {
+  fetchDate: string;
+  success: boolean;
+  errorMessage: string | null;
+  errorKind: FetchErrorKind | null;
+}
+
+export type FeedHealthStatus = 'healthy' | 'degraded' | 'quarantined';
+
+export interface FeedHealth {
+  feedName: string;
+  status: FeedHealthStatus;
+  since: string | null;
+  consecutiveFailures: number;
+  successRate: number | null;
+  lastAttempt: string | null;
+  lastError: string | null;
+  lastErrorKind: FetchErrorKind | null;
+  nextProbe: string | null;
 }
 
 export interface GenerationStats {
@@ -52,3 +337,47 @@ export interface GenerationStats {
   duplicatesRemoved: number;
   generatedAt: Date;
 }
+
+/** The part of a fetch result an edition's feed status section shows. */
+export type FeedResultSummary = Pick<FetchResult, 'feedName' | 'success' | 'error' | 'errorKind'>;
+
+/**
+ * A published edition as stored in the database: its items and the run's
+ * stats and feed statuses, which is everything needed to render it again.
+ */
+export interface EditionRecord {
+  date: string;
+  stats: GenerationStats;
+  feedResults: FeedResultSummary[];
+  feedHealth: FeedHealth[];
+  items: FeedItem[];
+}
+
+export interface EditionSummary {
+  date: string;
+  generatedAt: string;
+  itemCount: number;
+  categories: string[];
+}
+
+/**
+ * A weekly or monthly roll-up as stored in the database: the best stories
+ * of the daily editions in its period, chosen when it was built.
+ */
+export interface RollupRecord {
+  cadence: RollupCadence;
+  /** "2026-W42" for a week, "2026-10" for a month. */
+  period: string;
+  generatedAt: Date;
+  editionDates: string[];
+  /** The stories in those editions, which the items were chosen from. */
+  candidateCount: number;
+  items: FeedItem[];
+}
+
+export interface RollupSummary {
+  cadence: RollupCadence;
+  period: string;
+  generatedAt: string;
+  itemCount: number;
+}
@@ -0,0 +1,96 @@
+import { CanonicalizationConfig } from './types.js';
+
+export const DEFAULT_CANONICALIZATION_CONFIG: CanonicalizationConfig = {
+  stripParams: [
+    'utm_*',
+    'fbclid',
+    'gclid',
+    'dclid',
+    'msclkid',
+    'mc_cid',
+    'mc_eid',
+    'igshid',
+    '_hsenc',
+    '_hsmi',
+    'ref',
+    'ref_src',
+    'amp'
+  ],
+  forceHttps: true,
+  stripWww: true,
+  stripTrailingSlash: true,
+  stripAmp: true
+};
+
+/**
+ * Normalizes article links so the same story is recognized regardless of
+ * tracking parameters, scheme, `www.` prefix, trailing slash or AMP variant.
+ * The canonical form is only used as a deduplication key; links shown in the
+ * newsletter are left as published.
+ */
+export class UrlCanonicalizer {
+  private config: CanonicalizationConfig;
+  private paramMatchers: RegExp[];
+
+  constructor(config: Partial<CanonicalizationConfig> = {}) {
+    this.config = { ...DEFAULT_CANONICALIZATION_CONFIG, ...config };
+    this.paramMatchers = this.config.stripParams.map(pattern => {
+      // Rules are exact parameter names, with `*` as a wildcard
+      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      return new RegExp(`^${escaped}$`, 'i');
+    });
+  }
+
+  /**
+   * Identifies the active rules, so stored URLs can be re-keyed when they change.
+   */
+  fingerprint(): string {
+    return JSON.stringify(this.config);
+  }
+
+  canonicalize(link: string): string {
+    const trimmed = link.trim();
+    let url: URL;
+
+    try {
+      url = new URL(trimmed);
+    } catch {
+      return trimmed;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return url.toString();
+    }
+
+    if (this.config.forceHttps) {
+      url.protocol = 'https:';
+    }
+
+    if (this.config.stripWww && url.hostname.startsWith('www.')) {
+      url.hostname = url.hostname.slice(4);
+    }
+
+    if (this.config.stripAmp) {
+      if (url.hostname.startsWith('amp.')) {
+        url.hostname = url.hostname.slice(4);
+      }
+      url.pathname = url.pathname
+        .replace(/\/amp(\/|$)/g, '/')
+        .replace(/\.amp\.html$/, '.html');
+    }
+
+    url.hash = '';
+
+    // Drop tracking parameters and sort the rest so their order does not matter
+    const params = Array.from(url.searchParams.entries())
+      .filter(([key]) => !this.paramMatchers.some(matcher => matcher.test(key)))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    url.search = new URLSearchParams(params).toString();
+
+    if (this.config.stripTrailingSlash && url.pathname.length > 1) {
+      url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+    }
+
+    return url.toString();
+  }
+}
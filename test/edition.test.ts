@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseManager } from '../src/database.js';
+import { createEditionRecord, editionDateOf, mergeEditions } from '../src/edition.js';
+import { FeedItem, FetchResult, GenerationStats } from '../src/types.js';
+
+function item(title: string): FeedItem {
+  return {
+    id: title,
+    title,
+    link: `https://example.com/${title}`,
+    description: '',
+    pubDate: new Date('2026-10-19T05:00:00Z'),
+    feedName: 'Example',
+    category: 'Tech News'
+  };
+}
+
+function stats(newItems: number, generatedAt: string): GenerationStats {
+  return { totalFeeds: 1, successfulFeeds: 1, failedFeeds: 0, newItems, duplicatesRemoved: 0, generatedAt: new Date(generatedAt) };
+}
+
+const results: FetchResult[] = [{ feedName: 'Example', success: true, items: [], fromCache: false }];
+
+/** What generate does with each run's edition. */
+function saveRun(db: DatabaseManager, items: FeedItem[], generatedAt: string): void {
+  const run = createEditionRecord(items, stats(items.length, generatedAt), results, [], 'UTC');
+  const earlier = db.getEdition(run.date);
+  db.saveEdition(earlier ? mergeEditions(earlier, run) : run);
+}
+
+test('a second run on the same day without new items keeps the edition', () => {
+  const db = new DatabaseManager('/nonexistent/processed.db', { snapshot: true });
+  try {
+    saveRun(db, [item('a'), item('b')], '2026-10-19T06:00:00Z');
+    saveRun(db, [], '2026-10-19T18:00:00Z');
+
+    const edition = db.getEdition('2026-10-19');
+    assert.deepEqual(edition?.items.map(i => i.title), ['a', 'b']);
+    assert.equal(edition?.stats.newItems, 2);
+    assert.equal(db.getEditionSummaries()[0].itemCount, 2);
+  } finally {
+    db.close();
+  }
+});
+
+test('a second run on the same day adds its items first', () => {
+  const db = new DatabaseManager('/nonexistent/processed.db', { snapshot: true });
+  try {
+    saveRun(db, [item('a')], '2026-10-19T06:00:00Z');
+    saveRun(db, [item('c')], '2026-10-19T18:00:00Z');
+
+    const edition = db.getEdition('2026-10-19');
+    assert.deepEqual(edition?.items.map(i => i.title), ['c', 'a']);
+    assert.equal(edition?.stats.generatedAt.toISOString(), '2026-10-19T18:00:00.000Z');
+  } finally {
+    db.close();
+  }
+});
+
+test('editions are dated by the day in the newsletter\'s time zone', () => {
+  // 19:30 in Los Angeles is already the next day in UTC
+  const evening = new Date('2026-10-20T02:30:00Z');
+  assert.equal(editionDateOf(evening, 'America/Los_Angeles'), '2026-10-19');
+  assert.equal(editionDateOf(evening, 'UTC'), '2026-10-20');
+  assert.equal(editionDateOf(new Date('2026-10-19T22:30:00Z'), 'Europe/Berlin'), '2026-10-20');
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_NEWSLETTER_CONFIG } from '../src/configValidator.js';
+import { buildEditionModel } from '../src/edition.js';
+import { EmailRenderer } from '../src/emailRenderer.js';
+import { EmailConfig, GenerationStats, NewsletterConfig } from '../src/types.js';
+
+const config: NewsletterConfig = {
+  ...DEFAULT_NEWSLETTER_CONFIG,
+  title: 'Digest',
+  siteUrl: 'https://example.com/news/',
+  timeZone: 'America/Los_Angeles',
+  editions: { daily: { email: true } }
+};
+
+const email: EmailConfig = {
+  from: 'digest@example.com',
+  subscribers: [],
+  subject: '{title} - {date}',
+  smtp: { host: 'smtp.example.com', port: 587, secure: false, startTls: true, userEnv: 'SMTP_USER', passwordEnv: 'SMTP_PASSWORD', timeout: 30000 }
+};
+
+test('an evening run is dated by the day in the newsletter\'s time zone', () => {
+  // 19:30 in Los Angeles, already the next day in UTC
+  const generatedAt = new Date('2026-10-20T02:30:00Z');
+  const stats: GenerationStats = { totalFeeds: 0, successfulFeeds: 0, failedFeeds: 0, newItems: 0, duplicatesRemoved: 0, generatedAt };
+  const rendered = new EmailRenderer(config, email).render(buildEditionModel(config, [], stats, [], [], generatedAt));
+
+  assert.equal(rendered.subject, 'Digest - 2026-10-19');
+  assert.ok(rendered.html.includes('https://example.com/news/newsletter-2026-10-19.html'));
+  assert.ok(!rendered.html.includes('newsletter-2026-10-20.html'));
+});
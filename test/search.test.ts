@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchIndex } from '../src/search.js';
+import { SearchDocument } from '../src/types.js';
+
+function document(link: string): SearchDocument {
+  return {
+    url: link,
+    link,
+    title: 'Title',
+    description: '',
+    feedName: 'Example',
+    category: 'Tech News',
+    publishedAt: '2026-10-19T05:00:00.000Z',
+    editionDate: '2026-10-19'
+  };
+}
+
+test('the search index only links to http and https pages', () => {
+  const index = buildSearchIndex([
+    document('https://example.com/a'),
+    document('HTTP://example.com/b'),
+    document('javascript:alert(document.cookie)'),
+    document('  JavaScript:alert(1)'),
+    document('data:text/html,<script>alert(1)</script>')
+  ]);
+
+  assert.deepEqual(index.map(entry => entry.link), [
+    'https://example.com/a',
+    'HTTP://example.com/b',
+    'newsletter-2026-10-19.html',
+    'newsletter-2026-10-19.html',
+    'newsletter-2026-10-19.html'
+  ]);
+});